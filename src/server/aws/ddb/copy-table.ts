@@ -10,24 +10,8 @@ import {
   type GlobalSecondaryIndex,
   type TableDescription,
 } from "@aws-sdk/client-dynamodb";
-import {
-  BatchWriteCommand,
-  DynamoDBDocumentClient,
-  type ScanCommandInput,
-  type ScanCommandOutput,
-  ScanCommand,
-} from "@aws-sdk/lib-dynamodb";
 import signale from "signale";
-
-// Type for batch write requests in DocumentClient context
-type BatchWriteRequest = {
-  PutRequest?: {
-    Item: Record<string, unknown>;
-  };
-  DeleteRequest?: {
-    Key: Record<string, unknown>;
-  };
-};
+import { batchWrite, create, iterate } from "./domain";
 
 /**
  * Validates that a table name follows AWS naming conventions
@@ -167,13 +151,6 @@ const waitForActive = async (
   if (log) signale.success(`Table "${tableName}" is now active!`);
 };
 
-/**
- * Sleep utility function
- * @param ms Milliseconds to sleep
- */
-const sleep = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
-
 type CopyTableProps = {
   /** Source table configuration */
   source: {
@@ -193,6 +170,13 @@ type CopyTableProps = {
   schemaOnly?: boolean;
   /** Whether to enable continuous backups on destination table */
   continuousBackups?: boolean;
+  /**
+   * Parallel scan segments for the source table (default: 1). Raise this for
+   * large tables; each segment is read sequentially, segments in parallel.
+   */
+  segments?: number;
+  /** Maximum segments read (and pages written) at once (default: `segments`) */
+  concurrency?: number;
   /** Optional function to transform each item during copy */
   transform?: (
     item: Record<string, unknown>,
@@ -221,7 +205,8 @@ type CopyTableResult = {
  * - Copy only the schema without data
  * - Transform items during the copy process
  * - Enable continuous backups on the destination table
- * - Handle large tables with proper pagination and retry logic
+ * - Handle large tables with a parallel segmented scan (`segments`), proper
+ *   pagination and retry logic
  *
  * @param props Configuration options for the copy operation
  * @returns Promise resolving to copy results
@@ -234,19 +219,25 @@ export const copyTable = async (
     validateTableName(props.source.tableName);
     validateTableName(props.destination.tableName);
 
-    // Create source clients (DocumentClient and DynamoDB)
+    // Create source and destination clients: document clients (the same way
+    // as `create`) for items, DynamoDB clients for the table-level commands
+    const source = create({
+      ...props.source.config,
+      tableName: props.source.tableName,
+    });
     const sourceDynamoClient = new DynamoDBClient({
       ...props.source.config,
-      region: props.source.config?.region || "us-east-1",
+      region: props.source.config?.region ?? "us-east-1",
     });
-    const sourceDocClient = DynamoDBDocumentClient.from(sourceDynamoClient);
 
-    // Create destination clients (DocumentClient and DynamoDB)
+    const destination = create({
+      ...props.destination.config,
+      tableName: props.destination.tableName,
+    });
     const destDynamoClient = new DynamoDBClient({
       ...props.destination.config,
-      region: props.destination.config?.region || "us-east-1",
+      region: props.destination.config?.region ?? "us-east-1",
     });
-    const destDocClient = DynamoDBDocumentClient.from(destDynamoClient);
 
     let counter = 0;
 
@@ -349,74 +340,46 @@ export const copyTable = async (
       }
     }
 
-    // Copy data from source to destination
-    let lastEvaluatedKey: Record<string, unknown> | undefined = undefined;
-
-    while (true) {
-      // Scan source table in batches
-      const scanInput: ScanCommandInput = {
-        TableName: props.source.tableName,
-        Limit: 25, // Process 25 items at a time
-        ExclusiveStartKey: lastEvaluatedKey,
-      };
-      const scanCommand = new ScanCommand(scanInput);
-
-      const scanResponse: ScanCommandOutput = await sourceDocClient.send(
-        scanCommand
-      );
-      const items = scanResponse.Items || [];
-
-      // Break if no more items
-      if (items.length === 0) {
-        break;
+    // Copy data from source to destination: a parallel scan feeds batch
+    // writes, with at most `concurrency` pages being written at a time
+    const segments = props.segments ?? 1;
+    const concurrency = props.concurrency ?? segments;
+    const writes = new Set<Promise<void>>();
+    let index = 0;
+
+    const write = async (items: { item: Record<string, unknown> }[]) => {
+      const result = await batchWrite(destination, { items, maxRetries: 10 });
+      counter += result.processed;
+      if (result.failed > 0) {
+        throw new Error(`Failed to write ${result.failed} items`);
       }
-
-      // Transform items for batch write, applying transform function if provided
-      const writeRequests: BatchWriteRequest[] = items.map(
-        (item: Record<string, unknown>, index: number) => ({
-          PutRequest: {
-            Item: props.transform ? props.transform(item, index) : item,
-          },
-        })
-      );
-
-      // Write batch to destination table with retry logic
-      let retries = 0;
-      let unprocessedItems: BatchWriteRequest[] = writeRequests;
-
-      while (unprocessedItems.length > 0) {
-        const batchWriteCommand = new BatchWriteCommand({
-          RequestItems: {
-            [props.destination.tableName]: unprocessedItems,
-          },
-        });
-
-        const batchResponse = await destDocClient.send(batchWriteCommand);
-        const stillUnprocessed: BatchWriteRequest[] =
-          (batchResponse.UnprocessedItems?.[
-            props.destination.tableName
-          ] as BatchWriteRequest[]) || [];
-
-        // Update counter with successfully processed items
-        counter += unprocessedItems.length - stillUnprocessed.length;
-
-        if (stillUnprocessed.length > 0) {
-          retries++;
-          unprocessedItems = stillUnprocessed;
-
-          // Exponential backoff for retries (as per AWS recommendations)
-          await sleep(2 * retries * 100);
-        } else {
-          unprocessedItems = [];
-        }
-      }
-
-      // Show progress if logging enabled
+      // Show progress
       process.stdout.write(`\rCopied ${counter} items`);
+    };
 
-      // Check for more items to process
-      lastEvaluatedKey = scanResponse.LastEvaluatedKey;
-      if (!lastEvaluatedKey) break;
+    try {
+      for await (const page of iterate(source, {
+        scan: true,
+        segments,
+        concurrency,
+        pages: true,
+      })) {
+        if (page.items.length === 0) continue;
+        const items = page.items.map((item) => ({
+          item: props.transform ? props.transform(item, index++) : item,
+        }));
+        const pending: Promise<void> = write(items).finally(() =>
+          writes.delete(pending)
+        );
+        // Failures surface through Promise.race/all below
+        pending.catch(() => undefined);
+        writes.add(pending);
+        if (writes.size >= concurrency) await Promise.race(writes);
+      }
+      await Promise.all(writes);
+    } finally {
+      // On failure, don't report back while writes are still landing
+      await Promise.allSettled(writes);
     }
 
     process.stdout.write("\n");
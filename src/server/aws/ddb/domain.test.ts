@@ -1,5 +1,16 @@
 import { describe, expect, it, vi } from "vitest";
-import { find, type Client } from "./domain";
+import {
+  batchDelete,
+  batchWrite,
+  create,
+  find,
+  iterate,
+  save,
+  transact,
+  update,
+  type Client,
+} from "./domain";
+import { VersionConflictError } from "./types";
 
 const createClient = (pages: unknown[]) => {
   const send = vi.fn();
@@ -65,4 +76,255 @@ describe("server/aws/ddb domain", () => {
     ]);
     expect(result.items.map((item) => item.id)).toEqual(["one", "two"]);
   });
+
+  it("iterates lazily across pages and stops at maxItems", async () => {
+    const { ddb, send } = createClient([
+      { Items: [{ id: "one" }, { id: "two" }], LastEvaluatedKey: { pk: "a" } },
+      { Items: [{ id: "three" }, { id: "four" }], LastEvaluatedKey: { pk: "b" } },
+    ]);
+
+    const items = iterate<{ id: string }>(ddb, {
+      scan: true,
+      maxItems: 3,
+    });
+    const first = await items.next();
+
+    expect(first.value).toEqual({ id: "one" });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const ids = [first.value?.id];
+    for await (const item of items) ids.push(item.id);
+
+    expect(ids).toEqual(["one", "two", "three"]);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1]?.[0].input.ExclusiveStartKey).toEqual({ pk: "a" });
+  });
+
+  it("yields whole pages until there is no LastEvaluatedKey", async () => {
+    const { ddb } = createClient([
+      { Items: [{ id: "one" }], LastEvaluatedKey: { pk: "a" } },
+      { Items: [{ id: "two" }] },
+    ]);
+
+    const keys: unknown[] = [];
+    for await (const page of iterate(ddb, {
+      pk: { value: "org#123" },
+      pages: true,
+    })) {
+      keys.push(page.lastEvaluatedKey);
+    }
+
+    expect(keys).toEqual([{ pk: "a" }, undefined]);
+  });
+
+  it("runs segmented scans in parallel within the concurrency limit", async () => {
+    const { ddb, send } = createClient([]);
+    const pages: Record<number, unknown[]> = {
+      0: [{ Items: [{ id: "0a" }], LastEvaluatedKey: { pk: "0" } }, { Items: [{ id: "0b" }] }],
+      1: [{ Items: [{ id: "1a" }] }],
+      2: [{ Items: [] }],
+    };
+    let inFlight = 0;
+    let peak = 0;
+    send.mockImplementation(async (command) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return pages[command.input.Segment]!.shift();
+    });
+    const progress: number[] = [];
+
+    const items = await find<{ id: string }>(ddb, {
+      scan: true,
+      segments: 3,
+      concurrency: 2,
+      recursive: true,
+      onProgress: (p) => progress.push(p.segmentsDone),
+    });
+
+    expect(items.map((item) => item.id).sort()).toEqual(["0a", "0b", "1a"]);
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(peak).toBe(2);
+    expect(send.mock.calls.map(([command]) => command.input.TotalSegments)).toEqual([3, 3, 3, 3]);
+    expect(progress.at(-1)).toBe(3);
+
+    await expect(
+      find(ddb, { scan: true, segments: 2, segment: 2 })
+    ).rejects.toThrow('"segment" must be an integer between 0 and 1');
+  });
+
+  it("returns one page of a segmented scan unless recursive, summing scannedCount", async () => {
+    const { ddb, send } = createClient([]);
+    send.mockImplementation(async (command) => ({
+      Items: [{ id: `${command.input.Segment}` }],
+      Count: 1,
+      ScannedCount: 5,
+      LastEvaluatedKey: { pk: "more" },
+    }));
+
+    const single = await find<{ id: string }>(ddb, { scan: true, segments: 2, raw: true });
+    expect(single).toMatchObject({ count: 1, scannedCount: 5, lastEvaluatedKey: undefined });
+
+    const stopped = await find<{ id: string }>(ddb, {
+      scan: true,
+      segments: 2,
+      raw: true,
+      recursive: (_page, pages) => pages < 3,
+    });
+    expect(stopped).toMatchObject({ count: 3, scannedCount: 15, lastEvaluatedKey: undefined });
+  });
+
+  it("stops every segment once maxItems is reached", async () => {
+    const { ddb, send } = createClient([]);
+    send.mockImplementation(async (command) => ({
+      Items: [{ id: `${command.input.Segment}` }],
+      LastEvaluatedKey: { pk: "more" },
+    }));
+
+    const ids: string[] = [];
+    for await (const item of iterate<{ id: string }>(ddb, {
+      scan: true,
+      segments: 4,
+      maxItems: 3,
+    })) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toHaveLength(3);
+    expect(send.mock.calls.length).toBeLessThan(8);
+  });
+
+  it("counts each batch item once across UnprocessedItems retries", async () => {
+    const unprocessed = (requests: object[]) => ({
+      UnprocessedItems: { users: requests },
+    });
+    const put = (sk: string) => ({ PutRequest: { Item: { pk: "p", sk } } });
+    const del = (sk: string) => ({ DeleteRequest: { Key: { pk: "p", sk } } });
+    const { ddb } = createClient([
+      unprocessed([put("2"), put("3"), put("4")]),
+      unprocessed([put("4")]),
+      {},
+      unprocessed([del("1"), del("2")]),
+      {},
+    ]);
+    const keys = ["0", "1", "2", "3", "4"].map((sk) => ({ pk: "p", sk }));
+
+    vi.useFakeTimers();
+    const writing = batchWrite(ddb, { items: keys.map((item) => ({ item })) });
+    await vi.runAllTimersAsync();
+    const written = await writing;
+    const deleting = batchDelete(ddb, { keys: keys.slice(0, 3).map((key) => ({ key })) });
+    await vi.runAllTimersAsync();
+    const deleted = await deleting;
+    vi.useRealTimers();
+
+    expect(written).toMatchObject({ processed: 5, failed: 0 });
+    expect(deleted).toMatchObject({ processed: 3, failed: 0 });
+  });
+
+  it("adds the version condition and bump to versioned writes", async () => {
+    const { ddb, send } = createClient([{}, {}]);
+
+    await save(ddb, {
+      item: { pk: "doc#1", sk: "doc", title: "a", version: 3 },
+      versioned: true,
+    });
+    expect(send.mock.calls[0]?.[0].input).toMatchObject({
+      Item: { pk: "doc#1", sk: "doc", title: "a", version: 4 },
+      ConditionExpression: "#ver = :ver",
+      ExpressionAttributeNames: { "#ver": "version" },
+      ExpressionAttributeValues: { ":ver": 3 },
+    });
+
+    await update(ddb, {
+      key: { pk: "doc#1", sk: "doc" },
+      set: { title: "b" },
+      conditions: [{ key: "status", op: "=", value: "draft" }],
+      versionKey: "rev",
+    });
+    const input = send.mock.calls[1]?.[0].input;
+    expect(input.UpdateExpression).toBe("SET #u0 = :u0, #u1 = :u1");
+    expect(input.ExpressionAttributeNames).toMatchObject({ "#u1": "rev", "#ver": "rev" });
+    expect(input.ConditionExpression).toBe(
+      "(#f0 = :f0) AND (attribute_not_exists(#ver))"
+    );
+  });
+
+  it("throws VersionConflictError only when the stored version moved on", async () => {
+    const conflict = Object.assign(new Error("The conditional request failed"), {
+      name: "ConditionalCheckFailedException",
+      Item: { version: { N: "5" } },
+    });
+    const otherCondition = Object.assign(new Error("The conditional request failed"), {
+      name: "ConditionalCheckFailedException",
+      Item: { version: { N: "3" } },
+    });
+    const { ddb, send } = createClient([]);
+    send.mockRejectedValueOnce(conflict).mockRejectedValueOnce(otherCondition);
+    const props = {
+      key: { pk: "doc#1", sk: "doc" },
+      set: { title: "b" },
+      cond: "attribute_exists(pk)",
+      versioned: true,
+      version: 3,
+    };
+
+    const error = await update(ddb, props).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(VersionConflictError);
+    expect(error).toMatchObject({ expected: 3, actual: 5, versionKey: "version" });
+    await expect(update(ddb, props)).rejects.toBe(otherCondition);
+  });
+
+  it("maps cancelled versioned transaction items to VersionConflictError", async () => {
+    const { ddb, send } = createClient([]);
+    send.mockRejectedValueOnce(
+      Object.assign(new Error("Transaction cancelled"), {
+        name: "TransactionCanceledException",
+        CancellationReasons: [
+          { Code: "None" },
+          { Code: "ConditionalCheckFailed", Item: { version: { N: "2" } } },
+        ],
+      })
+    );
+
+    const error = await transact(ddb, {
+      items: [
+        { put: { item: { pk: "a", sk: "a" } } },
+        {
+          update: {
+            key: { pk: "b", sk: "b" },
+            set: { title: "x" },
+            versioned: true,
+            version: 1,
+          },
+        },
+      ],
+    }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(VersionConflictError);
+    expect(error).toMatchObject({ key: { pk: "b", sk: "b" }, expected: 1, actual: 2 });
+    const updateItem = send.mock.calls[0]?.[0].input.TransactItems[1];
+    expect(updateItem.Update).toMatchObject({
+      ConditionExpression: "#ver = :ver",
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+    });
+  });
+
+  it("passes client config and (un)marshall overrides through create", async () => {
+    const ddb = create({
+      tableName: "main",
+      region: "eu-west-1",
+      endpoint: "http://localhost:8000",
+      unmarshallOptions: { wrapNumbers: true },
+    });
+
+    expect(ddb.tableName).toBe("main");
+    expect(await ddb.client.config.region()).toBe("eu-west-1");
+    expect(ddb.client.config.translateConfig).toMatchObject({
+      marshallOptions: { removeUndefinedValues: true },
+      unmarshallOptions: { wrapNumbers: true },
+    });
+    expect(await create().client.config.region()).toBe("us-east-1");
+  });
 });
@@ -1,4 +1,5 @@
 import {
+  GetCommand,
   PutCommand,
   ScanCommand,
   QueryCommand,
@@ -8,6 +9,7 @@ import {
   BatchWriteCommand,
   TransactWriteCommand,
   DynamoDBDocumentClient,
+  type BatchGetCommandInput,
   type NativeAttributeValue,
 } from "@aws-sdk/lib-dynamodb";
 import {
@@ -22,17 +24,35 @@ import * as _f from "./fns";
 
 export type Client = ReturnType<typeof create>;
 
-export const create = (props?: {
-  credentials?: _t.Credentials;
-  tableName?: string;
-}) => {
-  const tableName = props?.tableName;
-  const credentials = props?.credentials;
+/**
+ * Create a DynamoDB document client bound to a default table.
+ *
+ * Accepts any `DynamoDBClientConfig`; `region` defaults to `us-east-1`.
+ *
+ * @example
+ * ```ts
+ * const ddb = DDB.create({ tableName: "app-main", region: "eu-west-1" });
+ *
+ * // DynamoDB Local for integration tests
+ * const local = DDB.create({
+ *   tableName: "test",
+ *   endpoint: "http://localhost:8000",
+ *   credentials: { accessKeyId: "local", secretAccessKey: "local" },
+ * });
+ *
+ * // Keep large numbers exact
+ * const exact = DDB.create({ unmarshallOptions: { wrapNumbers: true } });
+ * ```
+ */
+export const create = (props?: _t.CreateProps) => {
+  const {
+    tableName,
+    marshallOptions,
+    unmarshallOptions,
+    ...config
+  } = props ?? {};
   const client = DynamoDBDocumentClient.from(
-    new DynamoDBClient({
-      ...(credentials && { credentials }),
-      region: "us-east-1",
-    }),
+    new DynamoDBClient({ ...config, region: config.region ?? "us-east-1" }),
     {
       marshallOptions: {
         // Whether to automatically convert empty strings, blobs, and sets to `null`.
@@ -41,10 +61,12 @@ export const create = (props?: {
         removeUndefinedValues: true, // false, by default.
         // Whether to convert typeof object to map attribute.
         convertClassInstanceToMap: false, // false, by default.
+        ...marshallOptions,
       },
       unmarshallOptions: {
         // Whether to return numbers as a string instead of converting them to native JavaScript numbers.
         wrapNumbers: false, // false, by default.
+        ...unmarshallOptions,
       },
     }
   );
@@ -160,6 +182,49 @@ export async function find<T extends object = Record<string, unknown>>(
 
     _f.validateFindProps(props, TableName);
 
+    // Return based on flags
+    const respond = (rawResponse: _t.RawResponse<T>) => {
+      if (props.raw && props.first) {
+        return {
+          count: rawResponse.count,
+          item: rawResponse.items[0],
+          scannedCount: rawResponse.scannedCount,
+        };
+      }
+      if (props.raw) return rawResponse;
+      if (props.first) return rawResponse.items[0];
+      return rawResponse.items;
+      // default: items array
+    };
+
+    // Parallel scan: collect segments through the `iterate` engine
+    if (_f.isParallelScan(props)) {
+      const { first: _first, raw: _raw, recursive, ...scan } = props;
+      const all: T[] = [];
+      let pageCount = 0;
+      let scannedCount = 0;
+      for await (const page of iterate<T>(ddb, { ...scan, pages: true })) {
+        all.push(...page.items);
+        scannedCount += page.scannedCount;
+        pageCount++;
+        // Like the sequential path: one page unless `recursive` asks for more
+        if (
+          !recursive ||
+          (typeof recursive === "function" &&
+            !recursive(page, pageCount, all.length))
+        ) {
+          break;
+        }
+      }
+      // Segments stop at different keys, so there is no single key to resume from
+      return respond({
+        lastEvaluatedKey: undefined,
+        scannedCount,
+        count: all.length,
+        items: all,
+      });
+    }
+
     // Build expression attributes
     const names: Record<string, string> = {};
     const values: Record<string, NativeAttributeValue> = {};
@@ -198,6 +263,7 @@ export async function find<T extends object = Record<string, unknown>>(
     let startKey = props.startKey;
     let pageCount = 0;
     let totalItems = 0;
+    let totalScanned = 0;
 
     let shouldContinue = true;
 
@@ -216,6 +282,10 @@ export async function find<T extends object = Record<string, unknown>>(
           ProjectionExpression,
           ExclusiveStartKey: startKey,
           ConsistentRead: props.strong,
+          ...(props.segment !== undefined && {
+            Segment: props.segment,
+            TotalSegments: props.segments,
+          }),
           ...(Object.keys(names).length > 0 && {
             ExpressionAttributeNames: names,
           }),
@@ -243,6 +313,7 @@ export async function find<T extends object = Record<string, unknown>>(
       const pageItems = (result.Items ?? []) as T[];
       all.push(...pageItems);
       totalItems += pageItems.length;
+      totalScanned += result.ScannedCount ?? pageItems.length;
       pageCount++;
       startKey = result.LastEvaluatedKey;
 
@@ -277,25 +348,12 @@ export async function find<T extends object = Record<string, unknown>>(
     }
 
     // Build raw response
-    const rawResponse: _t.RawResponse<T> = {
+    return respond({
       lastEvaluatedKey: startKey,
-      scannedCount: totalItems,
+      scannedCount: totalScanned,
       count: totalItems,
       items: all,
-    };
-
-    // Return based on flags
-    if (props.raw && props.first) {
-      return {
-        count: rawResponse.count,
-        item: rawResponse.items[0],
-        scannedCount: rawResponse.scannedCount,
-      };
-    }
-    if (props.raw) return rawResponse;
-    if (props.first) return rawResponse.items[0];
-    return rawResponse.items;
-    // default: items array
+    });
   } catch (error) {
     const err = error as Error;
     console.log(`[error] [ddb] [find] failed with ${err.message}. Input:`);
@@ -304,6 +362,185 @@ export async function find<T extends object = Record<string, unknown>>(
   }
 }
 
+/** Sequential pages of one query/scan (or one scan segment), fetched on demand */
+async function* findPages<T extends object>(
+  ddb: Client,
+  props: _t.FindProps<T>
+): AsyncGenerator<_t.RawResponse<T>, void, undefined> {
+  let startKey = props.startKey;
+  do {
+    const page = await find<T>(ddb, { ...props, startKey, raw: true });
+    startKey = page.lastEvaluatedKey;
+    yield page;
+  } while (startKey);
+}
+
+/**
+ * Parallel scan: read `segments` with at most `concurrency` in flight and
+ * yield pages in arrival order. Each active segment prefetches one page, so
+ * a slow consumer holds back the scan instead of buffering it.
+ */
+async function* scanSegments<T extends object>(
+  ddb: Client,
+  props: _t.FindProps<T>
+): AsyncGenerator<_t.RawResponse<T>, void, undefined> {
+  type Next = { segment: number; result: IteratorResult<_t.RawResponse<T>> };
+  const totalSegments = props.segments ?? 1;
+  const concurrency = Math.min(props.concurrency ?? totalSegments, totalSegments);
+  const segments: AsyncGenerator<_t.RawResponse<T>, void, undefined>[] = [];
+  const pending = new Map<number, Promise<Next>>();
+  const progress = { totalSegments, segmentsDone: 0, pages: 0, items: 0 };
+
+  const pull = (segment: number) => {
+    const request = segments[segment]!.next().then((result) => ({
+      segment,
+      result,
+    }));
+    // Rejections surface through Promise.race; don't leak them once abandoned
+    request.catch(() => undefined);
+    pending.set(segment, request);
+  };
+  const start = () => {
+    const segment = segments.length;
+    segments.push(findPages<T>(ddb, { ...props, segment } as _t.FindProps<T>));
+    pull(segment);
+  };
+
+  while (segments.length < concurrency) start();
+  try {
+    while (pending.size > 0) {
+      const { segment, result } = await Promise.race(pending.values());
+      if (result.done) {
+        pending.delete(segment);
+        progress.segmentsDone++;
+        props.onProgress?.({ segment, ...progress });
+        if (segments.length < totalSegments) start();
+        continue;
+      }
+      pull(segment);
+      progress.pages++;
+      progress.items += result.value.items.length;
+      props.onProgress?.({ segment, ...progress });
+      yield { ...result.value, segment };
+    }
+  } finally {
+    // Consumer stopped (break, maxItems, error): let in-flight pages settle
+    await Promise.allSettled(segments.map((segment) => segment.return()));
+  }
+}
+
+/**
+ * Walk a query or scan page by page without buffering it in memory.
+ *
+ * Each page is one `find` call (same props, filters and validation), fetched
+ * only when the consumer asks for more; `break` out of the loop to stop
+ * early. Yields items by default, or whole pages with `pages: true` (their
+ * `lastEvaluatedKey` pairs with `encodeCursor`).
+ *
+ * Scans with `segments` run in parallel (`concurrency` at a time) and yield
+ * pages as they arrive from any segment; `maxItems`/`maxPages` count across
+ * all of them.
+ *
+ * @example
+ * ```ts
+ * for await (const user of iterate<User>(ddb, { scan: true, limit: 500 })) {
+ *   await reindex(user);
+ * }
+ *
+ * for await (const page of iterate<Order>(ddb, { pk: { value: "org#9" }, pages: true })) {
+ *   await exportBatch(page.items);
+ * }
+ *
+ * // 16 segments, 4 at a time
+ * const pages = iterate(ddb, {
+ *   scan: true,
+ *   segments: 16,
+ *   concurrency: 4,
+ *   pages: true,
+ *   onProgress: (p) => console.log(`${p.items} items, ${p.segmentsDone}/16 segments`),
+ * });
+ * ```
+ */
+export function iterate<T extends object = Record<string, unknown>>(
+  ddb: Client,
+  props: _t.IterateProps<T> & { pages: true }
+): AsyncGenerator<_t.RawResponse<T>, void, undefined>;
+export function iterate<T extends object = Record<string, unknown>>(
+  ddb: Client,
+  props: _t.IterateProps<T>
+): AsyncGenerator<T, void, undefined>;
+export async function* iterate<T extends object = Record<string, unknown>>(
+  ddb: Client,
+  props: _t.IterateProps<T>
+): AsyncGenerator<T | _t.RawResponse<T>, void, undefined> {
+  const { pages, maxItems, maxPages, ...rest } = props;
+  const findProps = rest as _t.FindProps<T>;
+  let pageCount = 0;
+  let totalItems = 0;
+
+  if (maxPages === 0) return;
+  let source: AsyncGenerator<_t.RawResponse<T>, void, undefined>;
+  if (_f.isParallelScan(findProps)) {
+    const TableName = _f.getTableNameOrThrow(props.tableName, ddb.tableName);
+    _f.validateFindProps(findProps, TableName);
+    source = scanSegments(ddb, findProps);
+  } else {
+    source = findPages(ddb, findProps);
+  }
+
+  for await (const page of source) {
+    pageCount++;
+    if (pages) {
+      totalItems += page.items.length;
+      yield page;
+    } else {
+      for (const item of page.items) {
+        if (maxItems && totalItems >= maxItems) return;
+        totalItems++;
+        yield item;
+      }
+    }
+    if (maxItems && totalItems >= maxItems) return;
+    if (maxPages && pageCount >= maxPages) return;
+  }
+}
+
+/**
+ * Fetch one item by primary key with a single `GetItem`; `undefined` when
+ * it doesn't exist.
+ *
+ * @example
+ * ```ts
+ * const user = await get<User>(ddb, {
+ *   key: { pk: "org#1", sk: "user#1" },
+ *   projection: ["name", "email"],
+ *   strong: true,
+ * });
+ * ```
+ */
+export const get = async <T extends object = Record<string, unknown>>(
+  ddb: Client,
+  props: _t.GetProps<T>
+): Promise<T | undefined> => {
+  const TableName = _f.getTableNameOrThrow(props.tableName, ddb.tableName);
+  const names: Record<string, string> = {};
+  const ProjectionExpression = props.projection
+    ? _f.buildProjectionExpression(props.projection, names)
+    : undefined;
+  const result = await ddb.client.send(
+    new GetCommand({
+      TableName,
+      Key: props.key,
+      ...(props.strong && { ConsistentRead: true }),
+      ...(ProjectionExpression && {
+        ProjectionExpression,
+        ExpressionAttributeNames: names,
+      }),
+    })
+  );
+  return result.Item as T | undefined;
+};
+
 export const remove = async (
   ddb: Client,
   props: { key: _t.Key; tableName?: string }
@@ -312,22 +549,95 @@ export const remove = async (
   const command = new DeleteCommand({ Key: props.key, TableName });
   return ddb.client.send(command);
 };
+/** Primary key attributes of an item, for error reporting */
+const pickKey = (item: Record<string, unknown>) => ({
+  pk: item.pk,
+  sk: item.sk,
+});
+
 /** * Create or overwrite an item
- * @param ddb
- * @param item
- * @param opts
- * @returns
+ *
+ * With `versioned` (or `versionKey`), the item's version attribute is the
+ * version it was read at (absent for a new item): the put only succeeds
+ * while that's still stored, writes it bumped by one, and throws
+ * `VersionConflictError` otherwise.
+ *
+ * @example
+ * ```ts
+ * await save(ddb, { item: { ...doc, title }, versioned: true }); // doc.version → +1
+ * ```
  */
 export const save = async <T extends object>(
   ddb: Client,
-  props: { tableName?: string; item: T }
+  props: { tableName?: string; item: T } & _t.VersionedProps
 ) => {
   const TableName = _f.getTableNameOrThrow(props.tableName, ddb.tableName);
+  const item = props.item as Record<string, unknown>;
+  const versionKey = _f.getVersionKey(props);
+  if (!versionKey) {
+    const command = new PutCommand({ Item: item, TableName });
+    return ddb.client.send(command);
+  }
+
+  const expected = item[versionKey] as number | undefined;
+  const names: Record<string, string> = {};
+  const values: Record<string, NativeAttributeValue> = {};
   const command = new PutCommand({
-    Item: props.item as Record<string, unknown>,
+    Item: { ...item, [versionKey]: (expected ?? 0) + 1 },
     TableName,
+    ConditionExpression: _f.buildVersionCondition(
+      versionKey,
+      expected,
+      names,
+      values
+    ),
+    ExpressionAttributeNames: names,
+    ...(Object.keys(values).length > 0 && {
+      ExpressionAttributeValues: values,
+    }),
+    ReturnValuesOnConditionCheckFailure: "ALL_OLD",
   });
-  return ddb.client.send(command);
+  try {
+    return await ddb.client.send(command);
+  } catch (error) {
+    if (!_f.isConditionalConflictError(error)) throw error;
+    throw (
+      _f.toVersionConflictError(
+        (error as { Item?: Record<string, { N?: string }> }).Item,
+        { key: pickKey(item), tableName: TableName, versionKey, expected },
+        error
+      ) ?? error
+    );
+  }
+};
+
+/**
+ * Fold a version lock into update operations: a known version is
+ * incremented, a new item starts at 1.
+ */
+const withVersion = <T extends object>(
+  ops: _t.UpdateOperations<T>,
+  versionKey: string,
+  expected: number | undefined
+): _t.UpdateOperations<T> => {
+  const touched = [
+    ...Object.keys(ops.set ?? {}),
+    ...Object.keys(ops.incr ?? {}),
+    ...Object.keys(ops.add ?? {}),
+    ...Object.keys(ops.ifNotExists ?? {}),
+    ...((ops.remove ?? []) as string[]),
+  ];
+  if (touched.includes(versionKey)) {
+    throw new Error(
+      `[ddb] "${versionKey}" is managed by versioned writes; don't update it directly`
+    );
+  }
+  return expected === undefined
+    ? { ...ops, set: { ...ops.set, [versionKey]: 1 } as Partial<T> }
+    : {
+        ...ops,
+        incr: { ...ops.incr, [versionKey]: 1 } as _t.UpdateOperations<T>["incr"],
+      };
 };
 
 // UPDATE
@@ -380,6 +690,14 @@ const RETURN_VALUES_MAP: Record<_t.UpdateReturnValues, ReturnValue> = {
  *   returnValues: 'allNew',
  * });
  * console.log(result.Attributes); // Updated item
+ *
+ * // Optimistic locking: condition on the version read + increment it
+ * await update<User>(ddb, {
+ *   key: { pk: 'user#123', sk: 'profile' },
+ *   set: { name: 'Bob' },
+ *   versioned: true,
+ *   version: user.version, // throws VersionConflictError if it moved on
+ * });
  * ```
  */
 export async function update<T extends object = Record<string, unknown>>(
@@ -389,10 +707,13 @@ export async function update<T extends object = Record<string, unknown>>(
   const TableName = _f.getTableNameOrThrow(props.tableName, ddb.tableName);
   const names: Record<string, string> = {};
   const values: Record<string, NativeAttributeValue> = {};
+  const versionKey = _f.getVersionKey(props);
 
   // Build update expression
   const UpdateExpression = _f.buildUpdateExpression(
-    props as _t.UpdateOperations<T>,
+    versionKey
+      ? withVersion<T>(props, versionKey, props.version)
+      : (props as _t.UpdateOperations<T>),
     names,
     values
   );
@@ -430,6 +751,19 @@ export async function update<T extends object = Record<string, unknown>>(
     Object.assign(values, condValues);
   }
 
+  // Optimistic lock on the version attribute
+  if (versionKey) {
+    const versionCond = _f.buildVersionCondition(
+      versionKey,
+      props.version,
+      names,
+      values
+    );
+    ConditionExpression = ConditionExpression
+      ? `(${ConditionExpression}) AND (${versionCond})`
+      : versionCond;
+  }
+
   const input: ConstructorParameters<typeof UpdateCommand>[0] = {
     TableName,
     Key: props.key as Record<string, NativeAttributeValue>,
@@ -448,44 +782,78 @@ export async function update<T extends object = Record<string, unknown>>(
   if (props.returnValues) {
     input.ReturnValues = RETURN_VALUES_MAP[props.returnValues];
   }
+  if (!versionKey) return ddb.client.send(new UpdateCommand(input));
 
-  return ddb.client.send(new UpdateCommand(input));
+  input.ReturnValuesOnConditionCheckFailure = "ALL_OLD";
+  try {
+    return await ddb.client.send(new UpdateCommand(input));
+  } catch (error) {
+    if (!_f.isConditionalConflictError(error)) throw error;
+    throw (
+      _f.toVersionConflictError(
+        (error as { Item?: Record<string, { N?: string }> }).Item,
+        {
+          key: props.key,
+          tableName: TableName,
+          versionKey,
+          expected: props.version,
+        },
+        error
+      ) ?? error
+    );
+  }
 }
 
 // BATCH GET
 
+type KeysAndAttributes = NonNullable<
+  BatchGetCommandInput["RequestItems"]
+>[string];
+
+/** Identity of a requested key / returned item, to match them up */
+const keyId = (key: Record<string, unknown>) =>
+  JSON.stringify([key.pk, key.sk ?? null]);
+
 /**
- * Batch get multiple items from DynamoDB
- *
- * ## Limits
- * - Max items per request: 100
- * - Max request size: 16MB
- * - Read capacity: 0.5 RCU per item (eventually consistent), 1 RCU (strongly consistent)
- *
- * @example
- * const result = await batchGet(ddb, {
- * tableName: 'users',
- * keys: [{ pk: 'user#1', sk: 'profile' }, { pk: 'user#2', sk: 'profile' }]
- * });
- * console.log(`Retrieved: ${result.count}, Missing: ${result.missing}`);
- * const users = result.items;
+ * BatchGetItem across tables in chunks of 100 keys, retrying unprocessed
+ * keys. Returns the items found per table, by `keyId`.
  */
-export async function batchGet<T extends object>(
+const batchGetTables = async (
   ddb: Client,
-  props: {
-    tableName?: string;
-    keys: { pk: string; sk?: string }[];
-    maxRetries?: number;
-    strong?: boolean;
+  tables: Record<string, _t.BatchGetTableRequest>,
+  maxRetries: number
+) => {
+  const found: Record<string, Map<string, Record<string, unknown>>> = {};
+  const reads: Record<string, Omit<KeysAndAttributes, "Keys">> = {};
+  const requests: { tableName: string; key: _t.BatchGetKey }[] = [];
+
+  for (const [tableName, request] of Object.entries(tables)) {
+    found[tableName] = new Map();
+    const names: Record<string, string> = {};
+    const keyNames = request.keys.some((key) => key.sk !== undefined)
+      ? ["pk", "sk"]
+      : ["pk"];
+    const projection = request.projection && [
+      ...new Set([...keyNames, ...(request.projection as string[])]),
+    ];
+    reads[tableName] = {
+      ...(request.strong && { ConsistentRead: true }),
+      ...(projection && {
+        ProjectionExpression: _f.buildProjectionExpression(projection, names),
+        ExpressionAttributeNames: names,
+      }),
+    };
+    // A request may not name the same key twice
+    const seen = new Set<string>();
+    for (const key of request.keys) {
+      if (seen.has(keyId(key))) continue;
+      seen.add(keyId(key));
+      requests.push({ tableName, key });
+    }
   }
-) {
-  const { keys, maxRetries = 3, strong = false } = props;
-  const TableName = _f.getTableNameOrThrow(props.tableName, ddb.tableName);
-  const chunks = _f.chunk(keys, 100);
-  const allItems: T[] = [];
-  const requestedCount = keys.length;
-  let totalConsumedCapacity = 0;
-  for (const chunk of chunks) {
+
+  let consumedCapacity = 0;
+  for (const chunk of _f.chunk(requests, 100)) {
     let attempt = 0;
     let keysToFetch = chunk;
     while (keysToFetch.length > 0 && attempt <= maxRetries) {
@@ -497,32 +865,36 @@ export async function batchGet<T extends object>(
         await _f.sleep(delay);
       }
       try {
-        const command = new BatchGetCommand({
-          RequestItems: {
-            [TableName]: { Keys: keysToFetch, ConsistentRead: strong },
-          },
-        });
-        const result = await ddb.client.send(command);
+        const RequestItems: Record<string, KeysAndAttributes> = {};
+        for (const { tableName, key } of keysToFetch) {
+          RequestItems[tableName] ??= { ...reads[tableName], Keys: [] };
+          RequestItems[tableName].Keys!.push(key);
+        }
+        const result = await ddb.client.send(
+          new BatchGetCommand({ RequestItems })
+        );
         // Collect returned items
-        const items = (result.Responses?.[TableName] ?? []) as T[];
-        allItems.push(...items);
+        for (const [tableName, items] of Object.entries(
+          result.Responses ?? {}
+        )) {
+          for (const item of items) found[tableName]?.set(keyId(item), item);
+        }
         // Track capacity
         if (result.ConsumedCapacity) {
-          totalConsumedCapacity += result.ConsumedCapacity.reduce(
+          consumedCapacity += result.ConsumedCapacity.reduce(
             (sum, cap) => sum + (cap.CapacityUnits ?? 0),
             0
           );
         }
         // Check for unprocessed keys
-        const unprocessed = result.UnprocessedKeys?.[TableName]?.Keys as
-          | _t.Key[]
-          | undefined;
-        if (unprocessed && unprocessed.length > 0) {
-          keysToFetch = unprocessed;
-          attempt++;
-        } else {
-          keysToFetch = [];
-        }
+        keysToFetch = Object.entries(result.UnprocessedKeys ?? {}).flatMap(
+          ([tableName, unprocessed]) =>
+            (unprocessed.Keys ?? []).map((key) => ({
+              tableName,
+              key: key as _t.BatchGetKey,
+            }))
+        );
+        if (keysToFetch.length > 0) attempt++;
       } catch (error) {
         console.log(
           `[error] [ddb] [batchGet]: Error fetching chunk (attempt ${attempt}/${maxRetries}):`,
@@ -538,12 +910,123 @@ export async function batchGet<T extends object>(
       );
     }
   }
-  const missing = requestedCount - allItems.length;
+
+  const results = Object.fromEntries(
+    Object.entries(tables).map(([tableName, request]) => {
+      const items: Record<string, unknown>[] = [];
+      const missingKeys: _t.BatchGetKey[] = [];
+      for (const key of request.keys) {
+        const item = found[tableName]?.get(keyId(key));
+        if (item) items.push(item);
+        else missingKeys.push(key);
+      }
+      return [tableName, { items, missingKeys }];
+    })
+  );
+  return { results, consumedCapacity };
+};
+
+/**
+ * Batch get multiple items from DynamoDB, from one table (`keys`) or from
+ * several (`tables`, each with its own keys, projection and consistency).
+ *
+ * Items come back in requested key order, and keys without an item are
+ * listed in `missingKeys`.
+ *
+ * ## Limits
+ * - Max items per request: 100 (across tables; larger sets are chunked)
+ * - Max request size: 16MB
+ * - Read capacity: 0.5 RCU per item (eventually consistent), 1 RCU (strongly consistent)
+ *
+ * @example
+ * const result = await batchGet(ddb, {
+ * tableName: 'users',
+ * keys: [{ pk: 'user#1', sk: 'profile' }, { pk: 'user#2', sk: 'profile' }]
+ * });
+ * console.log(`Retrieved: ${result.count}, Missing: ${result.missing}`);
+ * const users = result.items;
+ *
+ * @example
+ * const { tables } = await batchGet<{ users: User; orgs: Org }>(ddb, {
+ *   tables: {
+ *     users: { keys: userKeys, projection: ['name'] },
+ *     orgs: { keys: [{ pk: 'org#1', sk: 'org' }], strong: true },
+ *   },
+ * });
+ * tables.users.items; // User[], in userKeys order
+ * tables.orgs.missingKeys; // [] when org#1 exists
+ */
+export function batchGet<T extends object>(
+  ddb: Client,
+  props: {
+    tableName?: string;
+    keys: _t.BatchGetKey[];
+    maxRetries?: number;
+    strong?: boolean;
+    projection?: (keyof T)[];
+  }
+): Promise<_t.BatchGetResult<T>>;
+export function batchGet<R extends Record<string, object>>(
+  ddb: Client,
+  props: {
+    tables: { [N in keyof R]: _t.BatchGetTableRequest<R[N]> };
+    maxRetries?: number;
+  }
+): Promise<_t.BatchGetTablesResult<R>>;
+export async function batchGet(
+  ddb: Client,
+  props:
+    | {
+        tableName?: string;
+        keys: _t.BatchGetKey[];
+        maxRetries?: number;
+        strong?: boolean;
+        projection?: PropertyKey[];
+      }
+    | {
+        tables: Record<string, _t.BatchGetTableRequest>;
+        maxRetries?: number;
+      }
+): Promise<
+  | _t.BatchGetResult<Record<string, unknown>>
+  | _t.BatchGetTablesResult<Record<string, Record<string, unknown>>>
+> {
+  const { maxRetries = 3 } = props;
+
+  if ("tables" in props) {
+    const { results, consumedCapacity } = await batchGetTables(
+      ddb,
+      props.tables,
+      maxRetries
+    );
+    const tables = Object.values(results);
+    return {
+      tables: results,
+      count: tables.reduce((sum, table) => sum + table.items.length, 0),
+      missing: tables.reduce((sum, table) => sum + table.missingKeys.length, 0),
+      consumedCapacity: consumedCapacity || undefined,
+    };
+  }
+
+  const TableName = _f.getTableNameOrThrow(props.tableName, ddb.tableName);
+  const { results, consumedCapacity } = await batchGetTables(
+    ddb,
+    {
+      [TableName]: {
+        keys: props.keys,
+        ...(props.strong && { strong: true }),
+        ...(props.projection && { projection: props.projection as never }),
+      },
+    },
+    maxRetries
+  );
+  const { items, missingKeys } = results[TableName]!;
   return {
-    missing,
-    items: allItems,
-    count: allItems.length,
-    consumedCapacity: totalConsumedCapacity || undefined,
+    missing: missingKeys.length,
+    missingKeys,
+    items,
+    count: items.length,
+    consumedCapacity: consumedCapacity || undefined,
   };
 }
 
@@ -690,11 +1173,12 @@ export async function batchWrite<
           // Check for unprocessed items
           const unprocessed = result.UnprocessedItems?.[TableName];
           if (unprocessed && unprocessed.length > 0) {
+            // Only the items sent in this attempt count as processed
+            processedCount += itemsToWrite.length - unprocessed.length;
             // Map unprocessed back to original format
             itemsToWrite = unprocessed.map((req) => ({
               item: req.PutRequest!.Item as T,
             }));
-            processedCount += chunk.length - itemsToWrite.length;
             attempt++;
           } else {
             processedCount += itemsToWrite.length;
@@ -868,11 +1352,12 @@ export async function batchDelete<I = { key: _t.Key; cond?: string }>(
           // Check for unprocessed items
           const unprocessed = result.UnprocessedItems?.[TableName];
           if (unprocessed && unprocessed.length > 0) {
+            // Only the items sent in this attempt count as processed
+            processedCount += itemsToDelete.length - unprocessed.length;
             // Map unprocessed back to original format
             itemsToDelete = unprocessed.map((req) => ({
               key: req.DeleteRequest!.Key as _t.Key,
             }));
-            processedCount += chunk.length - itemsToDelete.length;
             attempt++;
           } else {
             processedCount += itemsToDelete.length;
@@ -1115,25 +1600,75 @@ export async function transact<T extends object = Record<string, unknown>>(
     };
   };
 
-  const transactItems = items.map((item) => {
+  // Versioned puts/updates, by item index, to map cancellations back
+  const locks = new Map<
+    number,
+    {
+      key: Record<string, unknown>;
+      versionKey: string;
+      expected: number | undefined;
+    }
+  >();
+
+  // Helper to AND the version condition into a built condition
+  const lockVersion = (
+    index: number,
+    key: Record<string, unknown>,
+    versionKey: string,
+    expected: number | undefined,
+    cond: ReturnType<typeof buildCondition>
+  ) => {
+    const names = { ...cond.ExpressionAttributeNames };
+    const values = { ...cond.ExpressionAttributeValues };
+    const versionCond = _f.buildVersionCondition(
+      versionKey,
+      expected,
+      names,
+      values
+    );
+    locks.set(index, { key, versionKey, expected });
+    return {
+      ConditionExpression: cond.ConditionExpression
+        ? `(${cond.ConditionExpression}) AND (${versionCond})`
+        : versionCond,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues:
+        Object.keys(values).length > 0 ? values : undefined,
+      ReturnValuesOnConditionCheckFailure: "ALL_OLD" as const,
+    };
+  };
+
+  const transactItems = items.map((item, index) => {
     if ("put" in item) {
-      const {
-        ConditionExpression,
-        ExpressionAttributeNames,
-        ExpressionAttributeValues,
-      } = buildCondition(
+      const built = buildCondition(
         item.put.conditions,
         item.put.cond,
         item.put.exprNames,
         item.put.exprValues
       );
+      const putItem = item.put.item as Record<string, NativeAttributeValue>;
+      const versionKey = _f.getVersionKey(item.put);
+      const expected = versionKey
+        ? (putItem[versionKey] as number | undefined)
+        : undefined;
+      const {
+        ConditionExpression,
+        ExpressionAttributeNames,
+        ExpressionAttributeValues,
+        ...onFailure
+      } = versionKey
+        ? lockVersion(index, pickKey(putItem), versionKey, expected, built)
+        : built;
       return {
         Put: {
           TableName,
-          Item: item.put.item as Record<string, NativeAttributeValue>,
+          Item: versionKey
+            ? { ...putItem, [versionKey]: (expected ?? 0) + 1 }
+            : putItem,
           ...(ConditionExpression && { ConditionExpression }),
           ...(ExpressionAttributeValues && { ExpressionAttributeValues }),
           ...(ExpressionAttributeNames && { ExpressionAttributeNames }),
+          ...onFailure,
         },
       };
     }
@@ -1163,10 +1698,13 @@ export async function transact<T extends object = Record<string, unknown>>(
     if ("update" in item) {
       const names: Record<string, string> = {};
       const values: Record<string, NativeAttributeValue> = {};
+      const versionKey = _f.getVersionKey(item.update);
 
       // Build update expression from type-safe helpers
       const UpdateExpression = _f.buildUpdateExpression(
-        item.update,
+        versionKey
+          ? withVersion<T>(item.update, versionKey, item.update.version)
+          : item.update,
         names,
         values
       );
@@ -1178,12 +1716,21 @@ export async function transact<T extends object = Record<string, unknown>>(
       }
 
       // Build condition expression
-      const condResult = buildCondition(
+      const built = buildCondition(
         item.update.conditions,
         item.update.cond,
         undefined,
         undefined
       );
+      const { ReturnValuesOnConditionCheckFailure, ...condResult } = versionKey
+        ? lockVersion(
+            index,
+            item.update.key,
+            versionKey,
+            item.update.version,
+            built
+          )
+        : { ...built, ReturnValuesOnConditionCheckFailure: undefined };
 
       // Merge condition names/values
       if (condResult.ExpressionAttributeNames) {
@@ -1207,6 +1754,9 @@ export async function transact<T extends object = Record<string, unknown>>(
           ...(Object.keys(names).length > 0 && {
             ExpressionAttributeNames: names,
           }),
+          ...(ReturnValuesOnConditionCheckFailure && {
+            ReturnValuesOnConditionCheckFailure,
+          }),
         },
       };
     }
@@ -1264,6 +1814,25 @@ export async function transact<T extends object = Record<string, unknown>>(
   } catch (error) {
     const err = error as Error;
     console.log(`[error] [ddb] [transact] Transaction failed: ${err.message}`);
+    // A versioned item whose condition failed → VersionConflictError
+    const reasons = (
+      error as {
+        CancellationReasons?: {
+          Code?: string;
+          Item?: Record<string, { N?: string }>;
+        }[];
+      }
+    ).CancellationReasons;
+    for (const [index, lock] of locks) {
+      const reason = reasons?.[index];
+      if (reason?.Code !== "ConditionalCheckFailed") continue;
+      const conflict = _f.toVersionConflictError(
+        reason.Item,
+        { ...lock, tableName: TableName },
+        error
+      );
+      if (conflict) throw conflict;
+    }
     throw err;
   }
 }
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { DescribeTableCommand } from "@aws-sdk/client-dynamodb";
+import { ensureTable } from "./ensure-table";
+import { createMemory } from "./memory";
+import type { EnsureTableProps, TableClient } from "./types";
+
+describe("server/aws/ddb ensureTable", () => {
+  it("creates the table, then only applies what changed", async () => {
+    const ddb = createMemory({ tables: {} });
+    const definition: EnsureTableProps = {
+      name: "app",
+      lsis: ["lsi1", "lsi2"],
+      gsis: { byEmail: { pk: "email" } },
+      ttl: "expiresAt",
+      pitr: true,
+    };
+
+    expect(await ensureTable(ddb, definition)).toEqual({
+      created: true,
+      changes: ["create", "ttl", "pitr"],
+      undeclaredIndexes: [],
+    });
+    expect(await ensureTable(ddb, definition)).toEqual({
+      created: false,
+      changes: [],
+      undeclaredIndexes: [],
+    });
+
+    const updated = await ensureTable(ddb, {
+      name: "app",
+      lsis: ["lsi1"],
+      gsis: { byEmail: { pk: "email" }, byOrg: { pk: "orgId", sk: "createdAt" } },
+      streams: "newAndOld",
+      billing: { read: 5, write: 5 },
+    });
+    expect(updated).toEqual({
+      created: false,
+      changes: ["gsi:byOrg", "billing", "streams"],
+      undeclaredIndexes: ["lsi2"],
+    });
+    const { Table } = await (ddb.client as unknown as TableClient).send(
+      new DescribeTableCommand({ TableName: "app" })
+    );
+    expect(Table).toMatchObject({
+      BillingModeSummary: { BillingMode: "PROVISIONED" },
+      StreamSpecification: { StreamViewType: "NEW_AND_OLD_IMAGES" },
+    });
+    expect(Table?.GlobalSecondaryIndexes?.map((gsi) => gsi.IndexName)).toEqual([
+      "byEmail",
+      "byOrg",
+    ]);
+  });
+
+  it("refuses changes DynamoDB can't make in place", async () => {
+    const ddb = createMemory({ tables: { app: {} } });
+
+    await expect(ensureTable(ddb, { name: "app", keys: { sk: null } })).rejects.toThrow(
+      "[ddb] [ensureTable] [app] key schema is pk/sk, expected pk"
+    );
+    await expect(
+      ensureTable(ddb, { name: "app", lsis: ["lsi1"], ttl: "expiresAt" })
+    ).resolves.toMatchObject({ changes: ["ttl"] });
+    await expect(ensureTable(ddb, { name: "app", ttl: "deleteAt" })).rejects.toThrow(
+      "TTL is already on expiresAt"
+    );
+  });
+});
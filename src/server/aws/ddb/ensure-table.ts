@@ -0,0 +1,359 @@
+import {
+  CreateTableCommand,
+  DescribeContinuousBackupsCommand,
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  UpdateContinuousBackupsCommand,
+  UpdateTableCommand,
+  UpdateTimeToLiveCommand,
+  type AttributeDefinition,
+  type CreateTableCommandInput,
+  type GlobalSecondaryIndex,
+  type KeySchemaElement,
+  type Projection,
+  type StreamViewType,
+  type TableDescription,
+} from "@aws-sdk/client-dynamodb";
+import signale from "signale";
+import type { Client } from "./domain";
+import { lsi1, lsi2, lsi3, lsi4, lsi5 } from "./literals";
+import * as _t from "./types";
+import * as _f from "./fns";
+
+const LSIS = { lsi1, lsi2, lsi3, lsi4, lsi5 };
+
+const STREAM_VIEW_TYPES: Record<
+  Exclude<_t.EnsureTableProps["streams"], false | undefined>,
+  StreamViewType
+> = {
+  keys: "KEYS_ONLY",
+  newImage: "NEW_IMAGE",
+  oldImage: "OLD_IMAGE",
+  newAndOld: "NEW_AND_OLD_IMAGES",
+};
+
+/** Give up waiting for the table / indexes to become ACTIVE after 10 minutes */
+const MAX_WAIT_MS = 10 * 60 * 1000;
+
+const keySchema = (pk: string, sk?: string | null): KeySchemaElement[] => [
+  { AttributeName: pk, KeyType: "HASH" },
+  ...(sk ? [{ AttributeName: sk, KeyType: "RANGE" as const }] : []),
+];
+
+/** `pk/sk` (or `pk`) of a described key schema, for comparisons */
+const describeKeys = (keys: KeySchemaElement[] = []) =>
+  ["HASH", "RANGE"]
+    .flatMap((type) => keys.filter((key) => key.KeyType === type))
+    .map((key) => key.AttributeName)
+    .join("/");
+
+const projectionOf = (projection: _t.GsiDefinition["projection"]): Projection =>
+  projection === "keys"
+    ? { ProjectionType: "KEYS_ONLY" }
+    : Array.isArray(projection)
+    ? { ProjectionType: "INCLUDE", NonKeyAttributes: projection }
+    : { ProjectionType: "ALL" };
+
+const throughputOf = (throughput: _t.Throughput) => ({
+  ReadCapacityUnits: throughput.read,
+  WriteCapacityUnits: throughput.write,
+});
+
+/**
+ * Declaratively create or update a table: creates it when missing, otherwise
+ * diffs it against the definition and applies what DynamoDB can change in
+ * place (new GSIs, billing, streams, TTL and point-in-time recovery).
+ *
+ * Key schemas and LSIs can't change after creation, so a mismatch there
+ * throws instead. Indexes the table has but the definition doesn't declare
+ * are left alone and reported in `undeclaredIndexes`.
+ *
+ * @example
+ * ```ts
+ * await DDB.ensureTable(ddb, {
+ *   name: "app-main",
+ *   lsis: ["lsi1", "lsi2"],
+ *   gsis: { byEmail: { pk: "email" } },
+ *   ttl: "expiresAt",
+ *   streams: "newAndOld",
+ *   pitr: true,
+ * });
+ * ```
+ */
+export const ensureTable = async (
+  ddb: Client,
+  props: _t.EnsureTableProps
+): Promise<_t.EnsureTableResult> => {
+  const { name } = props;
+  const client = ddb.client as _t.TableClient;
+  const pk = props.keys?.pk ?? "pk";
+  const sk = props.keys?.sk === null ? undefined : (props.keys?.sk ?? "sk");
+  const lsis = props.lsis ?? [];
+  const gsis = props.gsis ?? {};
+  const provisioned =
+    props.billing && props.billing !== "onDemand" ? props.billing : undefined;
+  const pollInterval = props.pollInterval ?? 5000;
+  const changes: string[] = [];
+
+  const fail = (message: string) =>
+    new Error(`[ddb] [ensureTable] [${name}] ${message}`);
+  const log = (message: string) => {
+    if (props.log) signale.log(`[ddb] [ensureTable] [${name}] ${message}`);
+  };
+
+  const definitions = (names: (string | undefined)[]): AttributeDefinition[] =>
+    [...new Set(names.filter((n): n is string => Boolean(n)))].map(
+      (AttributeName) => ({
+        AttributeName,
+        AttributeType: props.attributeTypes?.[AttributeName] ?? "S",
+      })
+    );
+
+  const gsiOf = (
+    IndexName: string,
+    gsi: _t.GsiDefinition
+  ): GlobalSecondaryIndex => ({
+    IndexName,
+    KeySchema: keySchema(gsi.pk, gsi.sk),
+    Projection: projectionOf(gsi.projection),
+    ...(provisioned && {
+      ProvisionedThroughput: throughputOf(gsi.throughput ?? provisioned),
+    }),
+  });
+
+  const describe = async () => {
+    try {
+      const { Table } = await client.send(
+        new DescribeTableCommand({ TableName: name })
+      );
+      return Table;
+    } catch (error) {
+      if ((error as Error).name === "ResourceNotFoundException") {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  /** Poll until the table and all its GSIs are ACTIVE */
+  const waitForActive = async () => {
+    const started = Date.now();
+    for (;;) {
+      const table = await describe();
+      const busy =
+        table?.TableStatus !== "ACTIVE" ||
+        (table.GlobalSecondaryIndexes ?? []).some(
+          (gsi) => gsi.IndexStatus !== "ACTIVE"
+        );
+      if (!busy) return table;
+      if (Date.now() - started > MAX_WAIT_MS) {
+        throw fail("timed out waiting for the table to become ACTIVE");
+      }
+      await _f.sleep(pollInterval);
+    }
+  };
+
+  let table: TableDescription | undefined = await describe();
+  const created = !table;
+
+  if (!table) {
+    log("creating table");
+    const input: CreateTableCommandInput = {
+      TableName: name,
+      KeySchema: keySchema(pk, sk),
+      AttributeDefinitions: definitions([
+        pk,
+        sk,
+        ...lsis.map((lsi) => LSIS[lsi].sk),
+        ...Object.values(gsis).flatMap((gsi) => [gsi.pk, gsi.sk]),
+      ]),
+      ...(provisioned
+        ? {
+            BillingMode: "PROVISIONED",
+            ProvisionedThroughput: throughputOf(provisioned),
+          }
+        : { BillingMode: "PAY_PER_REQUEST" }),
+      ...(lsis.length > 0 && {
+        LocalSecondaryIndexes: lsis.map((lsi) => ({
+          IndexName: LSIS[lsi].name,
+          KeySchema: keySchema(pk, LSIS[lsi].sk),
+          Projection: { ProjectionType: "ALL" },
+        })),
+      }),
+      ...(Object.keys(gsis).length > 0 && {
+        GlobalSecondaryIndexes: Object.entries(gsis).map(([indexName, gsi]) =>
+          gsiOf(indexName, gsi)
+        ),
+      }),
+      ...(props.streams && {
+        StreamSpecification: {
+          StreamEnabled: true,
+          StreamViewType: STREAM_VIEW_TYPES[props.streams],
+        },
+      }),
+    };
+    await client.send(new CreateTableCommand(input));
+    changes.push("create");
+    table = await waitForActive();
+  }
+
+  // Key schema and LSIs are fixed at creation
+  const actualKeys = describeKeys(table?.KeySchema);
+  const expectedKeys = describeKeys(keySchema(pk, sk));
+  if (actualKeys !== expectedKeys) {
+    throw fail(`key schema is ${actualKeys}, expected ${expectedKeys}`);
+  }
+  const lsiNames = (table?.LocalSecondaryIndexes ?? []).map(
+    (index) => index.IndexName!
+  );
+  const missingLsis = lsis.filter((lsi) => !lsiNames.includes(LSIS[lsi].name));
+  if (missingLsis.length > 0) {
+    throw fail(
+      `LSIs can only be added at table creation, missing: ${missingLsis.join(", ")}`
+    );
+  }
+
+  // GSIs: add missing ones, one per update (DynamoDB allows a single create)
+  const existingGsis = table?.GlobalSecondaryIndexes ?? [];
+  for (const [indexName, gsi] of Object.entries(gsis)) {
+    const existing = existingGsis.find((index) => index.IndexName === indexName);
+    if (existing) {
+      const actual = describeKeys(existing.KeySchema);
+      const expected = describeKeys(keySchema(gsi.pk, gsi.sk));
+      if (actual !== expected) {
+        throw fail(
+          `GSI ${indexName} is keyed on ${actual}, expected ${expected} (delete it to recreate)`
+        );
+      }
+      continue;
+    }
+    log(`adding GSI ${indexName}`);
+    await client.send(
+      new UpdateTableCommand({
+        TableName: name,
+        AttributeDefinitions: definitions([gsi.pk, gsi.sk]),
+        GlobalSecondaryIndexUpdates: [{ Create: gsiOf(indexName, gsi) }],
+      })
+    );
+    changes.push(`gsi:${indexName}`);
+    table = await waitForActive();
+  }
+
+  const declared = new Set([
+    ...lsis.map((lsi) => LSIS[lsi].name as string),
+    ...Object.keys(gsis),
+  ]);
+  const undeclaredIndexes = [
+    ...lsiNames,
+    ...(table?.GlobalSecondaryIndexes ?? []).map((index) => index.IndexName!),
+  ].filter((indexName) => !declared.has(indexName));
+
+  // Billing mode / provisioned capacity
+  if (props.billing && !created) {
+    const mode = table?.BillingModeSummary?.BillingMode ?? "PROVISIONED";
+    const current = table?.ProvisionedThroughput;
+    const changed = provisioned
+      ? mode !== "PROVISIONED" ||
+        current?.ReadCapacityUnits !== provisioned.read ||
+        current?.WriteCapacityUnits !== provisioned.write
+      : mode !== "PAY_PER_REQUEST";
+    if (changed) {
+      log("updating billing");
+      await client.send(
+        new UpdateTableCommand({
+          TableName: name,
+          ...(provisioned
+            ? {
+                BillingMode: "PROVISIONED",
+                ProvisionedThroughput: throughputOf(provisioned),
+              }
+            : { BillingMode: "PAY_PER_REQUEST" }),
+        })
+      );
+      changes.push("billing");
+      table = await waitForActive();
+    }
+  }
+
+  // Streams: changing the view type means turning them off first
+  if (props.streams !== undefined && !created) {
+    const current = table?.StreamSpecification?.StreamEnabled
+      ? table.StreamSpecification.StreamViewType
+      : undefined;
+    const wanted = props.streams ? STREAM_VIEW_TYPES[props.streams] : undefined;
+    if (current !== wanted) {
+      log("updating streams");
+      if (current) {
+        await client.send(
+          new UpdateTableCommand({
+            TableName: name,
+            StreamSpecification: { StreamEnabled: false },
+          })
+        );
+        table = await waitForActive();
+      }
+      if (wanted) {
+        await client.send(
+          new UpdateTableCommand({
+            TableName: name,
+            StreamSpecification: {
+              StreamEnabled: true,
+              StreamViewType: wanted,
+            },
+          })
+        );
+        table = await waitForActive();
+      }
+      changes.push("streams");
+    }
+  }
+
+  // TTL
+  if (props.ttl) {
+    const { TimeToLiveDescription: ttl } = await client.send(
+      new DescribeTimeToLiveCommand({ TableName: name })
+    );
+    const enabled =
+      ttl?.TimeToLiveStatus === "ENABLED" ||
+      ttl?.TimeToLiveStatus === "ENABLING";
+    if (enabled && ttl?.AttributeName !== props.ttl) {
+      throw fail(
+        `TTL is already on ${ttl?.AttributeName}; disable it before switching to ${props.ttl}`
+      );
+    }
+    if (!enabled) {
+      log(`enabling TTL on ${props.ttl}`);
+      await client.send(
+        new UpdateTimeToLiveCommand({
+          TableName: name,
+          TimeToLiveSpecification: { AttributeName: props.ttl, Enabled: true },
+        })
+      );
+      changes.push("ttl");
+    }
+  }
+
+  // Point-in-time recovery
+  if (props.pitr !== undefined) {
+    const { ContinuousBackupsDescription: backups } = await client.send(
+      new DescribeContinuousBackupsCommand({ TableName: name })
+    );
+    const enabled =
+      backups?.PointInTimeRecoveryDescription?.PointInTimeRecoveryStatus ===
+      "ENABLED";
+    if (enabled !== props.pitr) {
+      log(`${props.pitr ? "enabling" : "disabling"} point-in-time recovery`);
+      await client.send(
+        new UpdateContinuousBackupsCommand({
+          TableName: name,
+          PointInTimeRecoverySpecification: {
+            PointInTimeRecoveryEnabled: props.pitr,
+          },
+        })
+      );
+      changes.push("pitr");
+    }
+  }
+
+  return { created, changes, undeclaredIndexes };
+};
@@ -0,0 +1,108 @@
+import { type } from "arktype";
+import { describe, expect, it, vi } from "vitest";
+import type { Client } from "./domain";
+import { entity } from "./entity";
+
+const createClient = (responses: unknown[] = []) => {
+  const send = vi.fn();
+  for (const response of responses) send.mockResolvedValueOnce(response);
+  send.mockResolvedValue({});
+  return {
+    ddb: { client: { send }, tableName: "main" } as unknown as Client,
+    send,
+  };
+};
+
+const User = entity({
+  name: "user",
+  schema: type({
+    id: "string",
+    orgId: "string",
+    email: "string",
+    "nickname?": "string",
+  }),
+  keys: {
+    pk: (u) => `org#${u.orgId}`,
+    sk: (u) => `user#${u.id}`,
+    lsi1: (u) => `email#${u.email}`,
+    lsi2: (u) => `nick#${u.nickname}`,
+  },
+});
+
+describe("server/aws/ddb entity", () => {
+  it("stores computed key and LSI attributes, leaving sparse LSIs off", async () => {
+    const { ddb, send } = createClient();
+
+    await User.put(ddb, { id: "1", orgId: "9", email: "a@b.co" });
+
+    expect(send.mock.calls[0]?.[0].input).toEqual({
+      TableName: "main",
+      Item: {
+        id: "1",
+        orgId: "9",
+        email: "a@b.co",
+        pk: "org#9",
+        sk: "user#1",
+        lsi1: "email#a@b.co",
+      },
+    });
+    await expect(
+      User.put(ddb, { id: "1", orgId: "9", email: 5 } as never)
+    ).rejects.toThrow("[ddb] [entity] [user] [put] invalid item: email must be a string");
+  });
+
+  it("reads by key and strips the computed attributes", async () => {
+    const stored = { id: "1", orgId: "9", email: "a@b.co", pk: "org#9", sk: "user#1", lsi1: "x" };
+    const { ddb, send } = createClient([{ Item: stored }, { Items: [stored] }]);
+
+    expect(await User.get(ddb, { orgId: "9", id: "1" })).toEqual({
+      id: "1",
+      orgId: "9",
+      email: "a@b.co",
+    });
+    expect(send.mock.calls[0]?.[0].input).toEqual({
+      TableName: "main",
+      Key: { pk: "org#9", sk: "user#1" },
+    });
+
+    await User.query(ddb, {
+      key: { orgId: "9" },
+      index: "lsi1",
+      sk: { op: "begins_with", value: "email#a" },
+    });
+    expect(send.mock.calls[1]?.[0].input).toMatchObject({
+      IndexName: "lsi1",
+      ExpressionAttributeNames: { "#pk": "pk", "#sk": "lsi1" },
+      ExpressionAttributeValues: { ":pk": "org#9", ":sk": "email#a" },
+    });
+
+    await expect(User.get(ddb, { orgId: "9" })).rejects.toThrow(
+      "[ddb] [entity] [user] [get] key requires id"
+    );
+  });
+
+  it("recomputes LSIs on update and rejects key changes", async () => {
+    const { ddb, send } = createClient([{ Attributes: { id: "1", pk: "org#9" } }]);
+
+    const updated = await User.update(
+      ddb,
+      { orgId: "9", id: "1" },
+      { set: { email: "new@b.co" }, remove: ["nickname"] }
+    );
+
+    expect(updated).toEqual({ id: "1" });
+    const input = send.mock.calls[0]?.[0].input;
+    expect(input.Key).toEqual({ pk: "org#9", sk: "user#1" });
+    expect(input.ConditionExpression).toBe("attribute_exists(pk)");
+    expect(Object.values(input.ExpressionAttributeNames)).toEqual(
+      expect.arrayContaining(["email", "lsi1", "nickname", "lsi2"])
+    );
+    expect(Object.values(input.ExpressionAttributeValues)).toEqual(
+      expect.arrayContaining(["new@b.co", "email#new@b.co"])
+    );
+
+    await expect(
+      User.update(ddb, { orgId: "9", id: "1" }, { set: { id: "2" } })
+    ).rejects.toThrow("cannot change key attribute id");
+  });
+});
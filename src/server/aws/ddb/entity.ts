@@ -0,0 +1,233 @@
+import { ArkErrors } from "arktype";
+import { find, get, remove, save, update, type Client } from "./domain";
+import { lsi1, lsi2, lsi3, lsi4, lsi5 } from "./literals";
+import * as _t from "./types";
+import * as _f from "./fns";
+
+const LSIS = { lsi1, lsi2, lsi3, lsi4, lsi5 };
+
+/**
+ * Define a single-table entity: a typed repository over `find`/`save`/
+ * `update`/`remove` that computes the key and LSI attributes for you.
+ *
+ * Items are validated by `schema` on `put` and stored with their computed
+ * `pk`, `sk` and LSI sort keys; reads strip those attributes again, so callers
+ * only ever see the entity's own shape.
+ *
+ * Key functions are plain functions of the item. Anything that only needs a
+ * key (`get`, `delete`, `update`, `query`) takes just the attributes those
+ * functions read, and throws if one is missing rather than querying
+ * `"user#undefined"`.
+ *
+ * @example
+ * ```ts
+ * const User = DDB.entity({
+ *   name: "user",
+ *   schema: type({ id: "string", orgId: "string", email: "string", createdAt: "number" }),
+ *   keys: {
+ *     pk: (u) => `org#${u.orgId}`,
+ *     sk: (u) => `user#${u.id}`,
+ *     lsi1: (u) => `email#${u.email}`,
+ *     lsi2: (u) => `created#${u.createdAt}`,
+ *   },
+ * });
+ *
+ * await User.put(ddb, { id: "1", orgId: "9", email: "a@b.co", createdAt: Date.now() });
+ * const user = await User.get(ddb, { orgId: "9", id: "1" }); // User | undefined
+ *
+ * // Newest users of an org, via lsi2
+ * const recent = await User.query(ddb, {
+ *   key: { orgId: "9" },
+ *   index: "lsi2",
+ *   sk: { op: "begins_with", value: "created#" },
+ *   sort: "desc",
+ *   limit: 20,
+ * });
+ *
+ * // Changing email recomputes lsi1 automatically
+ * await User.update(ddb, { orgId: "9", id: "1" }, { set: { email: "new@b.co" } });
+ * await User.delete(ddb, { orgId: "9", id: "1" });
+ * ```
+ */
+export const entity = <T extends object>(props: _t.EntityProps<T>) => {
+  const { name, schema, keys } = props;
+  const lsiNames = (Object.keys(LSIS) as _t.LsiName[]).filter((n) => keys[n]);
+  const keyAttributes = ["pk", "sk", ...lsiNames.map((n) => LSIS[n].sk)];
+
+  const fail = (op: string, message: string) =>
+    new Error(`[ddb] [entity] [${name}] [${op}] ${message}`);
+
+  /** Compute pk/sk, throwing when the input lacks an attribute they read. */
+  const keyOf = (op: string, item: Partial<T>): _t.Key => {
+    const pk = _f.computeKey(keys.pk, item);
+    const sk = _f.computeKey(keys.sk, item);
+    const missing = [...new Set([...pk.missing, ...sk.missing])];
+    if (missing.length > 0) {
+      throw fail(op, `key requires ${missing.join(", ")}`);
+    }
+    return { pk: pk.value, sk: sk.value };
+  };
+
+  /** Drop the computed key attributes from a stored item. */
+  const strip = (stored: Record<string, unknown>) => {
+    const item = { ...stored };
+    for (const attribute of keyAttributes) delete item[attribute];
+    return item as T;
+  };
+
+  const tableNameOf = (override?: string) => override ?? props.tableName;
+
+  return {
+    name,
+
+    /** The primary key of an item (e.g. for `transact`). */
+    key: (item: Partial<T>): _t.Key => keyOf("key", item),
+
+    /** Fetch one item by key; `undefined` when it doesn't exist. */
+    get: async (
+      ddb: Client,
+      key: Partial<T>,
+      opts?: { strong?: boolean; tableName?: string }
+    ) => {
+      const { pk, sk } = keyOf("get", key);
+      const tableName = tableNameOf(opts?.tableName);
+      const stored = await get<Record<string, unknown>>(ddb, {
+        key: { pk, sk },
+        ...(tableName && { tableName }),
+        ...(opts?.strong && { strong: true }),
+      });
+      return stored ? strip(stored) : undefined;
+    },
+
+    /**
+     * Validate and write an item (create or overwrite) with its computed key
+     * and LSI attributes. Returns the stored item (after schema morphs).
+     */
+    put: async (ddb: Client, item: T, opts?: { tableName?: string }) => {
+      const valid = schema(item);
+      if (valid instanceof ArkErrors) {
+        throw fail("put", `invalid item: ${valid.summary}`);
+      }
+      const lsis: Record<string, string> = {};
+      for (const lsi of lsiNames) {
+        const computed = _f.computeKey(keys[lsi]!, valid);
+        if (computed.missing.length === 0) lsis[LSIS[lsi].sk] = computed.value;
+      }
+      const tableName = tableNameOf(opts?.tableName);
+      await save(ddb, {
+        item: { ...valid, ...keyOf("put", valid), ...lsis },
+        ...(tableName && { tableName }),
+      });
+      return valid;
+    },
+
+    /**
+     * Query a partition (optionally ranged on `sk` or one of the entity's
+     * LSIs). Without an `sk` condition every item in the partition is
+     * returned, so narrow it when a partition holds several entity types.
+     */
+    query: async (ddb: Client, query: _t.EntityQueryProps<T>) => {
+      const pk = _f.computeKey(keys.pk, query.key);
+      if (pk.missing.length > 0) {
+        throw fail("query", `pk requires ${pk.missing.join(", ")}`);
+      }
+      if (query.index && !keys[query.index]) {
+        throw fail("query", `no "${query.index}" key is defined`);
+      }
+      const lsi = query.index ? LSIS[query.index] : undefined;
+      const tableName = tableNameOf(query.tableName);
+      const items = await find<T>(ddb, {
+        pk: { value: pk.value },
+        ...(query.sk && {
+          sk: { ...query.sk, ...(lsi && { key: lsi.sk }) } as _t.SkCond,
+        }),
+        ...(lsi && { indexName: lsi.name }),
+        ...(query.filters && { filters: query.filters }),
+        ...(query.limit !== undefined && { limit: query.limit }),
+        ...(query.sort && { sort: query.sort }),
+        ...(query.recursive && { recursive: true }),
+        ...(query.maxItems !== undefined && { maxItems: query.maxItems }),
+        ...(query.strong && { strong: true }),
+        ...(tableName && { tableName }),
+      });
+      return items.map((item) => strip(item as Record<string, unknown>));
+    },
+
+    /**
+     * Update an existing item by key and return it as stored afterwards
+     * (fails with a conditional check error when the item doesn't exist).
+     *
+     * LSI attributes that depend on `set` attributes are recomputed (and
+     * removed along with `remove`d ones). Changing an attribute the primary
+     * key reads is rejected, since that would be a different item; use
+     * `delete` + `put` instead.
+     */
+    update: async (
+      ddb: Client,
+      key: Partial<T>,
+      ops: _t.EntityUpdateProps<T>
+    ) => {
+      const primary = keyOf("update", key);
+      const touched = new Set<string>([
+        ...Object.keys(ops.set ?? {}),
+        ...((ops.remove ?? []) as string[]),
+      ]);
+      for (const fn of [keys.pk, keys.sk]) {
+        const changed = _f.computeKey(fn, key).reads.filter((attribute) =>
+          touched.has(attribute)
+        );
+        if (changed.length > 0) {
+          throw fail("update", `cannot change key attribute ${changed.join(", ")}`);
+        }
+      }
+
+      const set: Record<string, unknown> = { ...ops.set };
+      const removed = [...((ops.remove ?? []) as string[])];
+      const merged = { ...key, ...ops.set } as Partial<T>;
+      for (const lsi of lsiNames) {
+        const computed = _f.computeKey(keys[lsi]!, merged);
+        if (!computed.reads.some((attribute) => touched.has(attribute))) continue;
+        const gone = computed.reads.filter((a) => removed.includes(a));
+        if (gone.length > 0) {
+          removed.push(LSIS[lsi].sk);
+        } else if (computed.missing.length > 0) {
+          throw fail(
+            "update",
+            `${lsi} also needs ${computed.missing.join(", ")} to be recomputed`
+          );
+        } else {
+          set[LSIS[lsi].sk] = computed.value;
+        }
+      }
+
+      const tableName = tableNameOf(ops.tableName);
+      const result = await update<Record<string, unknown>>(ddb, {
+        ...(ops as _t.UpdateProps<Record<string, unknown>>),
+        ...(Object.keys(set).length > 0 && { set }),
+        ...(removed.length > 0 && { remove: removed }),
+        ...(tableName && { tableName }),
+        cond: ops.cond
+          ? `(${ops.cond}) AND attribute_exists(pk)`
+          : "attribute_exists(pk)",
+        returnValues: "allNew",
+        key: primary,
+      });
+      return result.Attributes ? strip(result.Attributes) : undefined;
+    },
+
+    /** Delete an item by key. */
+    delete: async (
+      ddb: Client,
+      key: Partial<T>,
+      opts?: { tableName?: string }
+    ) => {
+      const tableName = tableNameOf(opts?.tableName);
+      await remove(ddb, {
+        key: keyOf("delete", key),
+        ...(tableName && { tableName }),
+      });
+    },
+  };
+};
+
+export type Entity<T extends object> = ReturnType<typeof entity<T>>;
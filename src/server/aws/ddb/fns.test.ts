@@ -62,4 +62,70 @@ describe("server/aws/ddb fns", () => {
       )
     ).not.toThrow();
   });
+
+  it("round-trips cursors and rejects tampered signed ones", () => {
+    const key = { pk: "org#9", sk: "user#1", lsi1: 42 };
+
+    const plain = _f.encodeCursor(key);
+    expect(plain).toMatch(/^[\w-]+$/);
+    expect(_f.decodeCursor(plain)).toEqual(key);
+    expect(_f.encodeCursor(undefined)).toBeUndefined();
+    expect(_f.decodeCursor(undefined)).toBeUndefined();
+
+    const signed = _f.encodeCursor(key, { secret: "s3cret" })!;
+    expect(_f.decodeCursor(signed, { secret: "s3cret" })).toEqual(key);
+
+    const forged = `${_f.encodeCursor({ ...key, pk: "org#1" })}.${signed.split(".")[1]}`;
+    expect(() => _f.decodeCursor(forged, { secret: "s3cret" })).toThrow(
+      "[ddb] [cursor] invalid cursor signature"
+    );
+    expect(() => _f.decodeCursor(plain, { secret: "s3cret" })).toThrow(
+      "invalid cursor signature"
+    );
+    expect(() => _f.decodeCursor("not json")).toThrow("malformed cursor");
+  });
+
+  it("builds grouped filters over nested paths with size and attribute_type", () => {
+    type Doc = {
+      status: string;
+      tags: string[];
+      address: { city: string; lines: { zip: number }[] };
+    };
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = {};
+
+    const expression = _f.buildFilterExpression<Doc>(
+      [
+        { key: "address.city", op: "begins_with", value: "New" },
+        {
+          or: [
+            { key: "tags", op: "size", cmp: ">", value: 2 },
+            { not: { key: "address.lines[0].zip", op: "attribute_type", value: "N" } },
+          ],
+        },
+      ],
+      names,
+      values
+    );
+
+    expect(expression).toBe(
+      "begins_with(#f0.#f0_1, :f0) AND ((size(#f1) > :f1) OR (NOT (attribute_type(#f2.#f2_1[0].#f2_2, :f2))))"
+    );
+    expect(names).toEqual({
+      "#f0": "address",
+      "#f0_1": "city",
+      "#f1": "tags",
+      "#f2": "address",
+      "#f2_1": "lines",
+      "#f2_2": "zip",
+    });
+    expect(values).toEqual({ ":f0": "New", ":f1": 2, ":f2": "N" });
+
+    expect(() =>
+      _f.buildFilterExpression<Doc>([{ or: [] }], {}, {})
+    ).toThrow("'or' filter group requires at least one clause");
+    expect(() =>
+      _f.buildFilterExpression<Doc>([{ key: "tags[x]" as "tags", op: "attribute_exists" }], {}, {})
+    ).toThrow("Invalid filter key path: tags[x]");
+  });
 });
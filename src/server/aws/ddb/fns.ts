@@ -1,3 +1,4 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
 import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
 import * as _t from "./types";
 
@@ -100,8 +101,42 @@ export const validateFindProps = <T extends object = Record<string, unknown>>(
       );
     }
   }
+
+  // Segmented scan validations
+  if (isScan && props.segments !== undefined) {
+    const { segments, segment, concurrency } = props;
+    if (!Number.isInteger(segments) || segments < 1 || segments > 1_000_000) {
+      throw new Error(
+        `[ddb] [find] "segments" must be an integer between 1 and 1000000, received ${segments}`
+      );
+    }
+    if (
+      segment !== undefined &&
+      (!Number.isInteger(segment) || segment < 0 || segment >= segments)
+    ) {
+      throw new Error(
+        `[ddb] [find] "segment" must be an integer between 0 and ${segments - 1}, received ${segment}`
+      );
+    }
+    if (
+      concurrency !== undefined &&
+      (!Number.isInteger(concurrency) || concurrency < 1)
+    ) {
+      throw new Error(
+        `[ddb] [find] "concurrency" must be a positive integer, received ${concurrency}`
+      );
+    }
+  } else if (isScan && props.segment !== undefined) {
+    throw new Error(`[ddb] [find] "segment" requires "segments"`);
+  }
 };
 
+/** Whether a find/iterate call should fan out into a parallel scan */
+export const isParallelScan = <T extends object>(props: _t.FindProps<T>) =>
+  props.scan === true &&
+  props.segments !== undefined &&
+  props.segment === undefined;
+
 export const buildKeyConditionExpression = (
   pk: { key?: string; value: string },
   sk: _t.SkCond | undefined,
@@ -160,6 +195,37 @@ export const buildKeyConditionExpression = (
   );
 };
 
+// Runtime view of a (possibly grouped) clause; FilterClause<T> does the typing
+type AnyClause =
+  | { and: ReadonlyArray<AnyClause> }
+  | { or: ReadonlyArray<AnyClause> }
+  | { not: AnyClause }
+  | { key: string; op: string; cmp?: string; value?: unknown };
+
+const PATH_RE = /^[^.[\]]+(\.[^.[\]]+|\[\d+\])*$/;
+
+/**
+ * Turn `address.lines[0].city` into `#f0.#f0_1[0].#f0_2`, registering each
+ * segment's name under the clause's token.
+ */
+const buildPath = (
+  key: string,
+  token: string,
+  names: Record<string, string>
+) => {
+  if (!PATH_RE.test(key)) {
+    throw new Error(`Invalid filter key path: ${key}`);
+  }
+  let segment = 0;
+  return key.replace(/\[\d+\]|[^.[\]]+/g, (part) => {
+    if (part.startsWith("[")) return part;
+    const nameToken = segment === 0 ? token : `${token}_${segment}`;
+    segment++;
+    names[nameToken] = part;
+    return nameToken;
+  });
+};
+
 export const buildFilterExpression = <T extends object>(
   filters: ReadonlyArray<_t.FilterClause<T>>,
   names: Record<string, string>,
@@ -167,29 +233,48 @@ export const buildFilterExpression = <T extends object>(
 ) => {
   if (!filters || filters.length === 0) return undefined;
 
-  const frags: string[] = [];
+  let i = 0;
 
-  filters.forEach((f, i) => {
-    const nameToken = `#f${i}`;
-    names[nameToken] = f.key as string;
+  const build = (f: AnyClause): string => {
+    if ("and" in f || "or" in f) {
+      const [joiner, clauses] =
+        "and" in f ? (["AND", f.and] as const) : (["OR", f.or] as const);
+      if (!clauses.length) {
+        throw new Error(
+          `'${joiner.toLowerCase()}' filter group requires at least one clause`
+        );
+      }
+      return `(${clauses.map((c) => `(${build(c)})`).join(` ${joiner} `)})`;
+    }
+    if ("not" in f) return `NOT (${build(f.not)})`;
+
+    const n = i++;
+    const path = buildPath(f.key, `#f${n}`, names);
 
     switch (f.op) {
       case "attribute_exists":
-        frags.push(`attribute_exists(${nameToken})`);
-        break;
-
       case "attribute_not_exists":
-        frags.push(`attribute_not_exists(${nameToken})`);
-        break;
+        return `${f.op}(${path})`;
+
+      case "attribute_type": {
+        const ph = `:f${n}`;
+        values[ph] = f.value as NativeAttributeValue;
+        return `attribute_type(${path}, ${ph})`;
+      }
+
+      case "size": {
+        const ph = `:f${n}`;
+        values[ph] = f.value as NativeAttributeValue;
+        return `size(${path}) ${f.cmp} ${ph}`;
+      }
 
       case "between": {
-        const [lo, hi] = f.value;
-        const loPh = `:f${i}_lo`;
-        const hiPh = `:f${i}_hi`;
+        const [lo, hi] = f.value as readonly [unknown, unknown];
+        const loPh = `:f${n}_lo`;
+        const hiPh = `:f${n}_hi`;
         values[loPh] = lo as NativeAttributeValue;
         values[hiPh] = hi as NativeAttributeValue;
-        frags.push(`${nameToken} BETWEEN ${loPh} AND ${hiPh}`);
-        break;
+        return `${path} BETWEEN ${loPh} AND ${hiPh}`;
       }
 
       case "in": {
@@ -199,21 +284,19 @@ export const buildFilterExpression = <T extends object>(
             `'in' filter for ${f.key} requires at least one value`
           );
         }
-        const phs = arr.map((_, j) => `:f${i}_${j}`);
-        arr.forEach((v, j) => {
-          const ph = phs[j];
-          if (ph) values[ph] = v;
+        const phs = arr.map((v, j) => {
+          const ph = `:f${n}_${j}`;
+          values[ph] = v;
+          return ph;
         });
-        frags.push(`${nameToken} IN (${phs.join(", ")})`);
-        break;
+        return `${path} IN (${phs.join(", ")})`;
       }
 
       case "contains":
       case "begins_with": {
-        const ph = `:f${i}`;
+        const ph = `:f${n}`;
         values[ph] = f.value as NativeAttributeValue;
-        frags.push(`${f.op}(${nameToken}, ${ph})`);
-        break;
+        return `${f.op}(${path}, ${ph})`;
       }
 
       case "=":
@@ -222,15 +305,19 @@ export const buildFilterExpression = <T extends object>(
       case ">=":
       case "<":
       case "<=": {
-        const ph = `:f${i}`;
+        const ph = `:f${n}`;
         values[ph] = f.value as NativeAttributeValue;
-        frags.push(`${nameToken} ${f.op} ${ph}`);
-        break;
+        return `${path} ${f.op} ${ph}`;
       }
+
+      default:
+        throw new Error(`Unknown filter op '${f.op}' for ${f.key}`);
     }
-  });
+  };
 
-  return frags.join(" AND ");
+  return (filters as unknown as ReadonlyArray<AnyClause>)
+    .map(build)
+    .join(" AND ");
 };
 
 export const buildProjectionExpression = <T>(
@@ -415,3 +502,155 @@ export const buildUpdateExpression = <T extends object>(
 
   return exprParts.join(" ") || undefined;
 };
+
+/**
+ * Run a key function while recording which attributes it reads.
+ *
+ * Key functions are plain template strings (`user#${u.id}`), so a missing
+ * attribute would silently produce `"user#undefined"`. Tracking reads lets
+ * callers reject incomplete keys, leave sparse LSIs off an item, and tell
+ * which key attributes an update touches.
+ *
+ * @example
+ * ```ts
+ * computeKey((u: User) => `user#${u.id}`, { email: "a@b.c" });
+ * // → { value: "user#undefined", reads: ["id"], missing: ["id"] }
+ * ```
+ */
+export const computeKey = <T extends object>(
+  fn: _t.KeyFn<T>,
+  item: Partial<T>
+) => {
+  const reads = new Set<string>();
+  const tracked = new Proxy(item, {
+    get(target, prop, receiver) {
+      if (typeof prop === "string") reads.add(prop);
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+  const value = fn(tracked as T);
+  const missing = [...reads].filter(
+    (name) => (item as Record<string, unknown>)[name] === undefined
+  );
+  return { value, reads: [...reads], missing };
+};
+
+const signCursor = (payload: string, secret: string) =>
+  createHmac("sha256", secret).update(payload).digest("base64url");
+
+/**
+ * Turn a `lastEvaluatedKey` into an opaque, URL-safe pagination token.
+ *
+ * The key is JSON-encoded as base64url; pass a `secret` to append an HMAC so
+ * clients can't forge or edit keys (the structure is still readable, so sign
+ * whenever keys hold anything you wouldn't show the client). Returns
+ * `undefined` for the last page so it can be passed straight through.
+ *
+ * @example
+ * ```ts
+ * const page = await DDB.find(ddb, { pk: { value: "org#9" }, limit: 20, raw: true });
+ * return { items: page.items, next: DDB.encodeCursor(page.lastEvaluatedKey, { secret }) };
+ * ```
+ */
+export const encodeCursor = (
+  key: Record<string, NativeAttributeValue> | undefined,
+  options?: _t.CursorOptions
+) => {
+  if (!key) return undefined;
+  const payload = Buffer.from(JSON.stringify(key)).toString("base64url");
+  return options?.secret
+    ? `${payload}.${signCursor(payload, options.secret)}`
+    : payload;
+};
+
+/**
+ * Decode a token from `encodeCursor` back into a `startKey`.
+ * Returns `undefined` for a missing token (first page).
+ * @throws Error if the token is malformed or its signature doesn't match
+ */
+export const decodeCursor = (
+  token: string | null | undefined,
+  options?: _t.CursorOptions
+): Record<string, NativeAttributeValue> | undefined => {
+  if (!token) return undefined;
+  const [payload = "", signature, ...rest] = token.split(".");
+  if (rest.length > 0) {
+    throw new Error(`[ddb] [cursor] malformed cursor`);
+  }
+  if (options?.secret) {
+    const expected = Buffer.from(signCursor(payload, options.secret));
+    const actual = Buffer.from(signature ?? "");
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new Error(`[ddb] [cursor] invalid cursor signature`);
+    }
+  } else if (signature !== undefined) {
+    throw new Error(`[ddb] [cursor] signed cursor needs a secret to decode`);
+  }
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    throw new Error(`[ddb] [cursor] malformed cursor`);
+  }
+  if (!key || typeof key !== "object" || Array.isArray(key)) {
+    throw new Error(`[ddb] [cursor] malformed cursor`);
+  }
+  return key as Record<string, NativeAttributeValue>;
+};
+
+/** The version attribute for `versioned`/`versionKey`, if locking is on */
+export const getVersionKey = (props: _t.VersionedProps) =>
+  props.versionKey ?? (props.versioned ? "version" : undefined);
+
+/**
+ * Optimistic-lock condition: the stored version must still be `expected`
+ * (or be absent when `expected` is `undefined`, i.e. a new item).
+ */
+export const buildVersionCondition = (
+  versionKey: string,
+  expected: number | undefined,
+  names: Record<string, string>,
+  values: Record<string, NativeAttributeValue>
+) => {
+  if (expected !== undefined && !Number.isInteger(expected)) {
+    throw new Error(
+      `[ddb] "${versionKey}" must be an integer version, received ${String(expected)}`
+    );
+  }
+  names["#ver"] = versionKey;
+  if (expected === undefined) return "attribute_not_exists(#ver)";
+  values[":ver"] = expected;
+  return "#ver = :ver";
+};
+
+/**
+ * Map a failed condition check on a versioned write to a
+ * `VersionConflictError`.
+ *
+ * `failed` is the old item DynamoDB returns with
+ * `ReturnValuesOnConditionCheckFailure: "ALL_OLD"` (raw attribute values, on
+ * the exception or a transaction's cancellation reason). When the stored
+ * version still matches, another condition failed and this returns
+ * `undefined` so the original error surfaces.
+ *
+ * Expects `isConditionalConflictError(cause)` (or a `ConditionalCheckFailed`
+ * cancellation reason) to have been checked by the caller.
+ */
+export const toVersionConflictError = (
+  failed: Record<string, { N?: string }> | undefined,
+  lock: {
+    key: Record<string, unknown>;
+    tableName: string;
+    versionKey: string;
+    expected: number | undefined;
+  },
+  cause: unknown
+) => {
+  const stored = failed?.[lock.versionKey]?.N;
+  const actual = stored === undefined ? undefined : Number(stored);
+  if (actual === lock.expected) return undefined;
+  return new _t.VersionConflictError({ ...lock, actual, cause });
+};
@@ -1,7 +1,17 @@
 export * from "./domain";
 export * from "./literals";
-export { isConditionalConflictError, isTransactionConflictError } from "./fns";
+export {
+  isConditionalConflictError,
+  isTransactionConflictError,
+  encodeCursor,
+  decodeCursor,
+} from "./fns";
 export { copyTable } from "./copy-table";
+export { ensureTable } from "./ensure-table";
+export { migrate } from "./migrate";
+export { entity, type Entity } from "./entity";
+export { VersionConflictError } from "./types";
+export { createMemory } from "./memory";
 export type {
   Key,
   TransactItem,
@@ -10,4 +20,31 @@ export type {
   TransactUpdate,
   TransactConditionCheck,
   TransactResult,
+  LsiName,
+  EntityKeys,
+  EntityProps,
+  EntityQueryProps,
+  EntityUpdateProps,
+  IterateProps,
+  CursorOptions,
+  ScanProgress,
+  VersionedProps,
+  CreateProps,
+  MemoryProps,
+  MemoryTable,
+  FilterClause,
+  FilterGroup,
+  FilterPath,
+  AttributeType,
+  GetProps,
+  BatchGetKey,
+  BatchGetTableRequest,
+  BatchGetResult,
+  BatchGetTablesResult,
+  GsiDefinition,
+  EnsureTableProps,
+  EnsureTableResult,
+  Migration,
+  MigrateProps,
+  MigrateResult,
 } from "./types";
@@ -0,0 +1,258 @@
+import { type } from "arktype";
+import { describe, expect, it, vi } from "vitest";
+import {
+  batchGet,
+  batchWrite,
+  find,
+  get,
+  iterate,
+  remove,
+  save,
+  tableExists,
+  transact,
+  update,
+} from "./domain";
+import { entity } from "./entity";
+import { createMemory } from "./memory";
+import { VersionConflictError } from "./types";
+
+const seed = [
+  { pk: "org#1", sk: "user#1", name: "Ann", age: 31, tags: ["a"] },
+  { pk: "org#1", sk: "user#2", name: "Bob", age: 25, lsi1: "email#bob" },
+  { pk: "org#1", sk: "user#3", name: "Cid", age: 40, lsi1: "email#cid" },
+  { pk: "org#2", sk: "user#4", name: "Dee", age: 22 },
+];
+
+const createDb = () => createMemory({ tables: { main: { items: seed } } });
+
+describe("server/aws/ddb memory", () => {
+  it("evaluates key conditions, filters, sort order and pagination", async () => {
+    const ddb = createDb();
+
+    const adults = await find<{ name: string }>(ddb, {
+      pk: { value: "org#1" },
+      sk: { op: "begins_with", value: "user#" },
+      filters: [{ key: "age", op: ">=", value: 30 }],
+      sort: "desc",
+    });
+    expect(adults.map((u) => u.name)).toEqual(["Cid", "Ann"]);
+
+    const pages = [];
+    for await (const page of iterate(ddb, {
+      pk: { value: "org#1" },
+      limit: 2,
+      pages: true,
+    })) {
+      pages.push(page.items.length);
+    }
+    expect(pages).toEqual([2, 1]);
+
+    const byEmail = await find<{ name: string }>(ddb, {
+      pk: { value: "org#1" },
+      sk: { key: "lsi1", op: "=", value: "email#cid" },
+      indexName: "lsi1",
+    });
+    expect(byEmail.map((u) => u.name)).toEqual(["Cid"]);
+
+    const scanned = await find(ddb, {
+      scan: true,
+      segments: 3,
+      recursive: true,
+      filters: [{ key: "name", op: "in", value: ["Ann", "Dee"] }],
+    });
+    expect(scanned).toHaveLength(2);
+  });
+
+  it("evaluates grouped filters on nested paths, in finds and transactions", async () => {
+    const ddb = createDb();
+    await save(ddb, {
+      item: { pk: "org#3", sk: "user#5", name: "Eve", address: { city: "Oslo" }, tags: ["x", "y", "z"] },
+    });
+
+    const found = await find<{ name: string }>(ddb, {
+      scan: true,
+      filters: [
+        {
+          or: [
+            { key: "address.city", op: "=", value: "Oslo" },
+            { and: [{ key: "tags[0]", op: "=", value: "a" }, { not: { key: "age", op: "<", value: 30 } }] },
+          ],
+        },
+        { key: "tags", op: "size", cmp: ">=", value: 1 },
+      ],
+    });
+    expect(found.map((u) => u.name).sort()).toEqual(["Ann", "Eve"]);
+
+    const typed = await find<{ name: string }>(ddb, {
+      scan: true,
+      filters: [{ key: "lsi1", op: "attribute_type", value: "S" }],
+    });
+    expect(typed).toHaveLength(2);
+
+    await expect(
+      transact(ddb, {
+        items: [
+          {
+            conditionCheck: {
+              key: { pk: "org#3", sk: "user#5" },
+              conditions: [{ not: { key: "address.city", op: "begins_with", value: "O" } }],
+            },
+          },
+        ],
+      })
+    ).rejects.toMatchObject({ name: "TransactionCanceledException" });
+  });
+
+  it("applies update expressions and enforces conditions", async () => {
+    const ddb = createDb();
+    const key = { pk: "org#1", sk: "user#1" };
+
+    const result = await update(ddb, {
+      key,
+      set: { name: "Anna" },
+      incr: { age: 1 },
+      append: { tags: ["b"] },
+      remove: ["lsi1"],
+      conditions: [{ key: "age", op: "=", value: 31 }],
+      returnValues: "allNew",
+    });
+    expect(result.Attributes).toMatchObject({ name: "Anna", age: 32, tags: ["a", "b"] });
+
+    await expect(
+      update(ddb, { key, set: { name: "X" }, conditions: [{ key: "age", op: "=", value: 31 }] })
+    ).rejects.toMatchObject({ name: "ConditionalCheckFailedException" });
+    await expect(
+      update(ddb, { key, set: { pk: "org#9" } as never })
+    ).rejects.toMatchObject({ name: "ValidationException" });
+
+    await save(ddb, { item: { ...key, name: "Doc" }, versioned: true });
+    await expect(
+      update(ddb, { key, set: { name: "Y" }, versioned: true, version: 7 })
+    ).rejects.toBeInstanceOf(VersionConflictError);
+  });
+
+  it("cancels transactions atomically with per-item reasons", async () => {
+    const ddb = createDb();
+
+    const error = await transact(ddb, {
+      items: [
+        { put: { item: { pk: "org#3", sk: "user#9", name: "New" } } },
+        {
+          conditionCheck: {
+            key: { pk: "org#1", sk: "user#2" },
+            conditions: [{ key: "age", op: ">", value: 99 }],
+          },
+        },
+      ],
+    }).catch((err: unknown) => err);
+
+    expect(error).toMatchObject({
+      name: "TransactionCanceledException",
+      CancellationReasons: [{ Code: "None" }, { Code: "ConditionalCheckFailed" }],
+    });
+    expect(ddb.items()).toHaveLength(4);
+
+    await transact(ddb, {
+      items: [
+        { put: { item: { pk: "org#3", sk: "user#9", name: "New" } } },
+        { delete: { key: { pk: "org#2", sk: "user#4" } } },
+      ],
+    });
+    expect(ddb.items().map((item) => item.sk)).toEqual([
+      "user#1",
+      "user#2",
+      "user#3",
+      "user#9",
+    ]);
+  });
+
+  it("returns UnprocessedItems past batchWriteLimit so retries kick in", async () => {
+    const ddb = createMemory({ tables: { main: {} }, batchWriteLimit: 2 });
+    const items = Array.from({ length: 5 }, (_, i) => ({
+      item: { pk: "p", sk: `s${i}` },
+    }));
+
+    vi.useFakeTimers();
+    const pending = batchWrite(ddb, { items, maxRetries: 5 });
+    await vi.runAllTimersAsync();
+    const result = await pending;
+    vi.useRealTimers();
+
+    expect(result).toMatchObject({ processed: 5, failed: 0 });
+    const fetched = await batchGet(ddb, {
+      keys: [{ pk: "p", sk: "s0" }, { pk: "p", sk: "s4" }, { pk: "p", sk: "nope" }],
+    });
+    expect(fetched).toMatchObject({ count: 2, missing: 1 });
+
+    await remove(ddb, { key: { pk: "p", sk: "s0" } });
+    expect(ddb.items()).toHaveLength(4);
+    expect(await tableExists(ddb, { tableName: "main" })).toBe(true);
+    expect(await tableExists(ddb, { tableName: "other" })).toBe(false);
+  });
+
+  it("gets single items and batches across tables in key order", async () => {
+    const ddb = createMemory({
+      tableName: "main",
+      tables: {
+        main: { items: seed },
+        orgs: { items: [{ pk: "org#1", sk: "org", name: "Acme", plan: "pro" }] },
+      },
+    });
+
+    expect(
+      await get(ddb, { key: { pk: "org#1", sk: "user#2" }, projection: ["name"] })
+    ).toEqual({ name: "Bob" });
+    expect(await get(ddb, { key: { pk: "org#1", sk: "user#9" } })).toBeUndefined();
+
+    const { tables, count, missing } = await batchGet<{
+      main: { name: string };
+      orgs: { name: string; plan: string };
+    }>(ddb, {
+      tables: {
+        main: {
+          keys: [
+            { pk: "org#2", sk: "user#4" },
+            { pk: "org#1", sk: "user#9" },
+            { pk: "org#1", sk: "user#1" },
+          ],
+          projection: ["name"],
+        },
+        orgs: { keys: [{ pk: "org#1", sk: "org" }], strong: true },
+      },
+    });
+    expect(tables.main.items).toEqual([
+      { pk: "org#2", sk: "user#4", name: "Dee" },
+      { pk: "org#1", sk: "user#1", name: "Ann" },
+    ]);
+    expect(tables.main.missingKeys).toEqual([{ pk: "org#1", sk: "user#9" }]);
+    expect(tables.orgs.items.map((org) => org.plan)).toEqual(["pro"]);
+    expect({ count, missing }).toEqual({ count: 3, missing: 1 });
+  });
+
+  it("backs entity repositories including sparse LSIs", async () => {
+    const ddb = createMemory({ tables: { main: {} } });
+    const User = entity({
+      name: "user",
+      schema: type({ id: "string", orgId: "string", "email?": "string" }),
+      keys: {
+        pk: (u) => `org#${u.orgId}`,
+        sk: (u) => `user#${u.id}`,
+        lsi1: (u) => `email#${u.email}`,
+      },
+    });
+
+    await User.put(ddb, { id: "1", orgId: "9", email: "a@b.co" });
+    await User.put(ddb, { id: "2", orgId: "9" });
+
+    expect(await User.get(ddb, { orgId: "9", id: "2" })).toEqual({ id: "2", orgId: "9" });
+    const byEmail = await User.query(ddb, {
+      key: { orgId: "9" },
+      index: "lsi1",
+      sk: { op: "begins_with", value: "email#" },
+    });
+    expect(byEmail).toEqual([{ id: "1", orgId: "9", email: "a@b.co" }]);
+    await expect(
+      User.update(ddb, { orgId: "9", id: "3" }, { set: { email: "x" } })
+    ).rejects.toMatchObject({ name: "ConditionalCheckFailedException" });
+  });
+});
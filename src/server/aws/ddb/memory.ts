@@ -0,0 +1,1337 @@
+import {
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+  QueryCommand,
+  UpdateCommand,
+  DeleteCommand,
+  BatchGetCommand,
+  BatchWriteCommand,
+  TransactWriteCommand,
+  type DynamoDBDocumentClient,
+  type NativeAttributeValue,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  ConditionalCheckFailedException,
+  CreateTableCommand,
+  DeleteTableCommand,
+  DescribeTableCommand,
+  UpdateTableCommand,
+  DescribeTimeToLiveCommand,
+  UpdateTimeToLiveCommand,
+  DescribeContinuousBackupsCommand,
+  UpdateContinuousBackupsCommand,
+  DynamoDBServiceException,
+  ResourceInUseException,
+  ResourceNotFoundException,
+  TransactionCanceledException,
+  type AttributeValue,
+  type ProvisionedThroughput,
+  type StreamSpecification,
+  type TableDescription,
+} from "@aws-sdk/client-dynamodb";
+import type { Client } from "./domain";
+import { lsi1, lsi2, lsi3, lsi4, lsi5 } from "./literals";
+import * as _t from "./types";
+
+type Item = Record<string, NativeAttributeValue>;
+type Names = Record<string, string> | undefined;
+type Values = Record<string, NativeAttributeValue> | undefined;
+
+type Schema = { pk: string; sk: string | undefined };
+type WriteRequest =
+  | { Put: PutCommand["input"] }
+  | { Update: UpdateCommand["input"] }
+  | { Delete: DeleteCommand["input"] }
+  | {
+      ConditionCheck: {
+        TableName?: string;
+        Key?: Item;
+        ConditionExpression?: string;
+        ExpressionAttributeNames?: Names;
+        ExpressionAttributeValues?: Values;
+        ReturnValuesOnConditionCheckFailure?: string;
+      };
+    };
+type Table = {
+  name: string;
+  key: Schema;
+  indexes: Record<string, Schema>;
+  items: Map<string, Item>;
+  /** Settings only reported back by Describe* commands */
+  throughput?: ProvisionedThroughput | undefined;
+  stream?: StreamSpecification | undefined;
+  ttl?: string | undefined;
+  pitr?: boolean;
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+const validationError = (message: string) =>
+  new DynamoDBServiceException({
+    name: "ValidationException",
+    $fault: "client",
+    $metadata: {},
+    message,
+  });
+
+const conditionFailed = (old: Item | undefined, returnOld: unknown) =>
+  new ConditionalCheckFailedException({
+    message: "The conditional request failed",
+    $metadata: {},
+    ...(old && returnOld === "ALL_OLD" && { Item: marshallItem(old) }),
+  });
+
+/** Raw attribute values, as DynamoDB returns them on condition failures */
+const marshall = (value: NativeAttributeValue): AttributeValue => {
+  if (value === null || value === undefined) return { NULL: true };
+  if (typeof value === "string") return { S: value };
+  if (typeof value === "number" || typeof value === "bigint") {
+    return { N: String(value) };
+  }
+  if (typeof value === "boolean") return { BOOL: value };
+  if (value instanceof Uint8Array) return { B: value };
+  if (Array.isArray(value)) return { L: value.map(marshall) };
+  if (value instanceof Set) {
+    const members = [...(value as Set<unknown>)];
+    if (members.every((m) => typeof m === "number")) {
+      return { NS: members.map(String) };
+    }
+    if (members.every((m) => m instanceof Uint8Array)) {
+      return { BS: members as Uint8Array[] };
+    }
+    return { SS: members.map(String) };
+  }
+  return { M: marshallItem(value as Item) };
+};
+
+const marshallItem = (item: Item) =>
+  Object.fromEntries(
+    Object.entries(item).map(([key, value]) => [key, marshall(value)])
+  );
+
+// ============================================================================
+// Values
+// ============================================================================
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const isMap = (value: unknown): value is Item =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Set) &&
+  !(value instanceof Uint8Array);
+
+const equal = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+  }
+  if (a instanceof Set && b instanceof Set) {
+    return (
+      a.size === b.size && [...a].every((m) => [...b].some((n) => equal(m, n)))
+    );
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((m, i) => equal(m, b[i]));
+  }
+  if (isMap(a) && isMap(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && equal(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+/** Order of two scalars of the same type (`undefined` when not comparable) */
+const compare = (a: unknown, b: unknown): number | undefined => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return Buffer.compare(a, b);
+  }
+  return undefined;
+};
+
+const typeOf = (value: unknown) => {
+  if (value === null) return "NULL";
+  if (typeof value === "string") return "S";
+  if (typeof value === "number" || typeof value === "bigint") return "N";
+  if (typeof value === "boolean") return "BOOL";
+  if (value instanceof Uint8Array) return "B";
+  if (Array.isArray(value)) return "L";
+  if (value instanceof Set) {
+    const [first] = value;
+    return typeof first === "number"
+      ? "NS"
+      : first instanceof Uint8Array
+        ? "BS"
+        : "SS";
+  }
+  return "M";
+};
+
+const sizeOf = (value: unknown) => {
+  if (typeof value === "string") return Buffer.byteLength(value);
+  if (value instanceof Uint8Array || Array.isArray(value)) return value.length;
+  if (value instanceof Set) return value.size;
+  if (isMap(value)) return Object.keys(value).length;
+  return undefined;
+};
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+type PathStep = string | number;
+type Operand =
+  | { kind: "path"; path: PathStep[] }
+  | { kind: "value"; name: string }
+  | { kind: "size"; path: PathStep[] }
+  | { kind: "fn"; name: "if_not_exists" | "list_append"; args: Operand[] }
+  | { kind: "arith"; op: "+" | "-"; left: Operand; right: Operand };
+type Condition =
+  | { kind: "and" | "or"; left: Condition; right: Condition }
+  | { kind: "not"; cond: Condition }
+  | { kind: "cmp"; op: string; left: Operand; right: Operand }
+  | { kind: "between"; subject: Operand; low: Operand; high: Operand }
+  | { kind: "in"; subject: Operand; list: Operand[] }
+  | { kind: "call"; name: string; args: Operand[] };
+type UpdateAction =
+  | { kind: "SET"; path: PathStep[]; value: Operand }
+  | { kind: "REMOVE"; path: PathStep[] }
+  | { kind: "ADD" | "DELETE"; path: PathStep[]; value: Operand };
+
+const CONDITION_FUNCTIONS = new Set([
+  "attribute_exists",
+  "attribute_not_exists",
+  "attribute_type",
+  "begins_with",
+  "contains",
+]);
+const COMPARATORS = new Set(["=", "<>", "<", "<=", ">", ">="]);
+const UPDATE_CLAUSES = new Set(["SET", "REMOVE", "ADD", "DELETE"]);
+
+/**
+ * Recursive-descent reader for DynamoDB expressions. Names (`#x`) are
+ * resolved while parsing; values (`:x`) stay symbolic until evaluation.
+ */
+const createParser = (expression: string, names: Names) => {
+  const tokens =
+    expression.match(
+      /#[\w]+|:[\w]+|[A-Za-z_][\w]*|\d+|<>|<=|>=|[=<>(),.[\]+-]/g
+    ) ?? [];
+  let pos = 0;
+
+  const peek = (offset = 0) => tokens[pos + offset];
+  const isKeyword = (word: string, offset = 0) =>
+    peek(offset)?.toUpperCase() === word;
+  const next = () => {
+    const token = tokens[pos++];
+    if (token === undefined) {
+      throw validationError(`Invalid expression: unexpected end of "${expression}"`);
+    }
+    return token;
+  };
+  const expect = (token: string) => {
+    const actual = next();
+    if (actual !== token) {
+      throw validationError(
+        `Invalid expression: expected "${token}" but found "${actual}" in "${expression}"`
+      );
+    }
+  };
+
+  const name = (token: string) => {
+    if (!token.startsWith("#")) return token;
+    const resolved = names?.[token];
+    if (resolved === undefined) {
+      throw validationError(
+        `An expression attribute name used in the document path is not defined; attribute name: ${token}`
+      );
+    }
+    return resolved;
+  };
+
+  const path = (): PathStep[] => {
+    const steps: PathStep[] = [name(next())];
+    while (peek() === "." || peek() === "[") {
+      if (next() === ".") {
+        steps.push(name(next()));
+      } else {
+        steps.push(Number(next()));
+        expect("]");
+      }
+    }
+    return steps;
+  };
+
+  const args = () => {
+    expect("(");
+    const list: Operand[] = [];
+    while (peek() !== ")") {
+      list.push(operand());
+      if (peek() === ",") next();
+    }
+    expect(")");
+    return list;
+  };
+
+  const term = (): Operand => {
+    const token = peek() ?? "";
+    if (token.startsWith(":")) return { kind: "value", name: next() };
+    if (token === "size" && peek(1) === "(") {
+      next();
+      expect("(");
+      const target = path();
+      expect(")");
+      return { kind: "size", path: target };
+    }
+    if (
+      (token === "if_not_exists" || token === "list_append") &&
+      peek(1) === "("
+    ) {
+      next();
+      return { kind: "fn", name: token, args: args() };
+    }
+    return { kind: "path", path: path() };
+  };
+
+  const operand = (): Operand => {
+    const left = term();
+    if (peek() === "+" || peek() === "-") {
+      const op = next() as "+" | "-";
+      return { kind: "arith", op, left, right: term() };
+    }
+    return left;
+  };
+
+  const primary = (): Condition => {
+    if (peek() === "(") {
+      next();
+      const inner = or();
+      expect(")");
+      return inner;
+    }
+    const token = peek() ?? "";
+    if (CONDITION_FUNCTIONS.has(token) && peek(1) === "(") {
+      next();
+      return { kind: "call", name: token, args: args() };
+    }
+    const left = operand();
+    if (isKeyword("BETWEEN")) {
+      next();
+      const low = operand();
+      if (!isKeyword("AND")) expect("AND");
+      else next();
+      return { kind: "between", subject: left, low, high: operand() };
+    }
+    if (isKeyword("IN")) {
+      next();
+      return { kind: "in", subject: left, list: args() };
+    }
+    const op = next();
+    if (!COMPARATORS.has(op)) {
+      throw validationError(
+        `Invalid expression: unexpected "${op}" in "${expression}"`
+      );
+    }
+    return { kind: "cmp", op, left, right: operand() };
+  };
+
+  const not = (): Condition => {
+    if (isKeyword("NOT")) {
+      next();
+      return { kind: "not", cond: not() };
+    }
+    return primary();
+  };
+
+  const and = (): Condition => {
+    let left = not();
+    while (isKeyword("AND")) {
+      next();
+      left = { kind: "and", left, right: not() };
+    }
+    return left;
+  };
+
+  const or = (): Condition => {
+    let left = and();
+    while (isKeyword("OR")) {
+      next();
+      left = { kind: "or", left, right: and() };
+    }
+    return left;
+  };
+
+  const done = () => {
+    if (pos < tokens.length) {
+      throw validationError(
+        `Invalid expression: unexpected "${peek()}" in "${expression}"`
+      );
+    }
+  };
+
+  return {
+    paths: () => {
+      const list = [path()];
+      while (peek() === ",") {
+        next();
+        list.push(path());
+      }
+      done();
+      return list;
+    },
+    condition: () => {
+      const cond = or();
+      done();
+      return cond;
+    },
+    update: () => {
+      const actions: UpdateAction[] = [];
+      while (pos < tokens.length) {
+        const clause = next().toUpperCase();
+        if (!UPDATE_CLAUSES.has(clause)) {
+          throw validationError(
+            `Invalid UpdateExpression: unexpected "${clause}" in "${expression}"`
+          );
+        }
+        do {
+          if (peek() === ",") next();
+          const target = path();
+          if (clause === "SET") {
+            expect("=");
+            actions.push({ kind: "SET", path: target, value: operand() });
+          } else if (clause === "REMOVE") {
+            actions.push({ kind: "REMOVE", path: target });
+          } else {
+            actions.push({
+              kind: clause as "ADD" | "DELETE",
+              path: target,
+              value: term(),
+            });
+          }
+        } while (peek() === ",");
+      }
+      return actions;
+    },
+  };
+};
+
+const getPath = (item: unknown, path: PathStep[]) => {
+  let current: unknown = item;
+  for (const step of path) {
+    if (typeof step === "number") {
+      current = Array.isArray(current) ? current[step] : undefined;
+    } else {
+      current = isMap(current) ? current[step] : undefined;
+    }
+  }
+  return current;
+};
+
+const setPath = (item: Item, path: PathStep[], value: unknown) => {
+  const parent = getPath(item, path.slice(0, -1));
+  const last = path.at(-1)!;
+  if (typeof last === "number" && Array.isArray(parent)) {
+    if (last >= parent.length) parent.push(value);
+    else parent[last] = value;
+  } else if (typeof last === "string" && isMap(parent)) {
+    parent[last] = value as NativeAttributeValue;
+  } else {
+    throw validationError(
+      "The document path provided in the update expression is invalid for update"
+    );
+  }
+};
+
+const removePath = (item: Item, path: PathStep[]) => {
+  const parent = getPath(item, path.slice(0, -1));
+  const last = path.at(-1)!;
+  if (typeof last === "number" && Array.isArray(parent)) {
+    parent.splice(last, 1);
+  } else if (typeof last === "string" && isMap(parent)) {
+    delete parent[last];
+  }
+};
+
+const createEvaluator = (values: Values) => {
+  const value = (name: string) => {
+    if (!values || !(name in values)) {
+      throw validationError(
+        `An expression attribute value used in expression is not defined; attribute value: ${name}`
+      );
+    }
+    return values[name];
+  };
+
+  const operand = (item: Item, op: Operand): unknown => {
+    switch (op.kind) {
+      case "path":
+        return getPath(item, op.path);
+      case "value":
+        return value(op.name);
+      case "size":
+        return sizeOf(getPath(item, op.path));
+      case "fn": {
+        const [first, second] = op.args;
+        if (!first || !second) {
+          throw validationError(`${op.name} requires two operands`);
+        }
+        if (op.name === "if_not_exists") {
+          return operand(item, first) ?? operand(item, second);
+        }
+        const head = operand(item, first);
+        const tail = operand(item, second);
+        if (!Array.isArray(head) || !Array.isArray(tail)) {
+          throw validationError(
+            "An operand in the update expression has an incorrect data type"
+          );
+        }
+        return [...head, ...tail];
+      }
+      case "arith": {
+        const left = operand(item, op.left);
+        const right = operand(item, op.right);
+        if (typeof left !== "number" || typeof right !== "number") {
+          throw validationError(
+            "An operand in the update expression has an incorrect data type"
+          );
+        }
+        return op.op === "+" ? left + right : left - right;
+      }
+    }
+  };
+
+  const condition = (item: Item, cond: Condition): boolean => {
+    switch (cond.kind) {
+      case "and":
+        return condition(item, cond.left) && condition(item, cond.right);
+      case "or":
+        return condition(item, cond.left) || condition(item, cond.right);
+      case "not":
+        return !condition(item, cond.cond);
+      case "cmp": {
+        const left = operand(item, cond.left);
+        const right = operand(item, cond.right);
+        if (cond.op === "=") return equal(left, right);
+        if (cond.op === "<>") return !equal(left, right);
+        const order = compare(left, right);
+        if (order === undefined) return false;
+        if (cond.op === "<") return order < 0;
+        if (cond.op === "<=") return order <= 0;
+        if (cond.op === ">") return order > 0;
+        return order >= 0;
+      }
+      case "between": {
+        const subject = operand(item, cond.subject);
+        const low = compare(subject, operand(item, cond.low));
+        const high = compare(subject, operand(item, cond.high));
+        return low !== undefined && high !== undefined && low >= 0 && high <= 0;
+      }
+      case "in": {
+        const subject = operand(item, cond.subject);
+        return cond.list.some((entry) => equal(subject, operand(item, entry)));
+      }
+      case "call": {
+        const [target, argument] = cond.args;
+        const subject = target ? operand(item, target) : undefined;
+        const arg = argument ? operand(item, argument) : undefined;
+        switch (cond.name) {
+          case "attribute_exists":
+            return subject !== undefined;
+          case "attribute_not_exists":
+            return subject === undefined;
+          case "attribute_type":
+            return subject !== undefined && typeOf(subject) === arg;
+          case "begins_with":
+            return typeof subject === "string" && typeof arg === "string"
+              ? subject.startsWith(arg)
+              : subject instanceof Uint8Array && arg instanceof Uint8Array
+                ? equal(subject.subarray(0, arg.length), arg)
+                : false;
+          case "contains":
+            if (typeof subject === "string") {
+              return typeof arg === "string" && subject.includes(arg);
+            }
+            if (subject instanceof Set || Array.isArray(subject)) {
+              return [...subject].some((member) => equal(member, arg));
+            }
+            return false;
+          default:
+            throw validationError(`Invalid function name: ${cond.name}`);
+        }
+      }
+    }
+  };
+
+  return { operand, condition };
+};
+
+/** Evaluate a ConditionExpression/FilterExpression (missing → true) */
+const matches = (
+  item: Item | undefined,
+  expression: string | undefined,
+  names: Names,
+  values: Values
+) => {
+  if (!expression) return true;
+  const cond = createParser(expression, names).condition();
+  return createEvaluator(values).condition(item ?? {}, cond);
+};
+
+/** Apply an UpdateExpression, returning the new item and touched attributes */
+const applyUpdate = (
+  old: Item,
+  expression: string,
+  names: Names,
+  values: Values
+) => {
+  const actions = createParser(expression, names).update();
+  const evaluate = createEvaluator(values);
+  // Every operand reads the item as it was before the update
+  const resolved = actions.map((action) =>
+    "value" in action ? evaluate.operand(old, action.value) : undefined
+  );
+  const item = clone(old);
+  actions.forEach((action, i) => {
+    const operand = resolved[i];
+    const current = getPath(item, action.path);
+    switch (action.kind) {
+      case "SET":
+        setPath(item, action.path, clone(operand));
+        break;
+      case "REMOVE":
+        removePath(item, action.path);
+        break;
+      case "ADD":
+        if (typeof operand === "number") {
+          if (current !== undefined && typeof current !== "number") {
+            throw validationError(
+              "An operand in the update expression has an incorrect data type"
+            );
+          }
+          setPath(item, action.path, (current ?? 0) + operand);
+        } else if (operand instanceof Set) {
+          setPath(
+            item,
+            action.path,
+            new Set([...((current as Set<unknown>) ?? []), ...operand])
+          );
+        } else {
+          throw validationError(
+            "Incorrect operand type for operator or function; operator: ADD"
+          );
+        }
+        break;
+      case "DELETE":
+        if (current instanceof Set && operand instanceof Set) {
+          const rest = [...current].filter(
+            (member) => ![...operand].some((m) => equal(m, member))
+          );
+          if (rest.length > 0) setPath(item, action.path, new Set(rest));
+          else removePath(item, action.path);
+        }
+        break;
+    }
+  });
+  const touched = [...new Set(actions.map((action) => String(action.path[0])))];
+  return { item, touched };
+};
+
+const project = (item: Item, expression: string | undefined, names: Names) => {
+  if (!expression) return clone(item);
+  const projected: Item = {};
+  for (const path of createParser(expression, names).paths()) {
+    const value = getPath(item, path);
+    if (value === undefined) continue;
+    if (path.some((step) => typeof step === "number")) {
+      // List elements: keep the whole top-level attribute
+      const top = path[0] as string;
+      projected[top] = clone(item[top]);
+      continue;
+    }
+    // Rebuild nested maps down to the selected value
+    let target: Item = projected;
+    for (const step of path.slice(0, -1) as string[]) {
+      target[step] = isMap(target[step]) ? target[step] : {};
+      target = target[step] as Item;
+    }
+    target[path.at(-1) as string] = clone(value) as NativeAttributeValue;
+  }
+  return projected;
+};
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+const DEFAULT_INDEXES = Object.fromEntries(
+  [lsi1, lsi2, lsi3, lsi4, lsi5].map((lsi) => [lsi.name, { sk: lsi.sk }])
+);
+
+const keyValue = (value: unknown) =>
+  typeof value === "string" ||
+  typeof value === "number" ||
+  value instanceof Uint8Array;
+
+const storageKey = (table: Table, key: Item) =>
+  JSON.stringify([key[table.key.pk], table.key.sk ? key[table.key.sk] : null]);
+
+const pickKey = (schema: Schema, item: Item) => {
+  const key: Item = { [schema.pk]: item[schema.pk] };
+  if (schema.sk) key[schema.sk] = item[schema.sk];
+  return key;
+};
+
+/** Item lookup by primary key, validating that the key is complete */
+const keyOf = (table: Table, key: Item | undefined) => {
+  const { pk, sk } = table.key;
+  const expected = sk ? [pk, sk] : [pk];
+  const given = Object.keys(key ?? {});
+  if (
+    !key ||
+    given.length !== expected.length ||
+    !expected.every((name) => keyValue(key[name]))
+  ) {
+    throw validationError(
+      "The provided key element does not match the schema"
+    );
+  }
+  return storageKey(table, key);
+};
+
+const validateItem = (table: Table, item: Item) => {
+  for (const name of [table.key.pk, table.key.sk]) {
+    if (name && !keyValue(item[name])) {
+      throw validationError(
+        `One or more parameter values were invalid: Missing the key ${name} in the item`
+      );
+    }
+  }
+  for (const [indexName, schema] of Object.entries(table.indexes)) {
+    for (const name of [schema.pk, schema.sk]) {
+      const value = name ? item[name] : undefined;
+      if (value !== undefined && !keyValue(value)) {
+        throw validationError(
+          `One or more parameter values were invalid: Type mismatch for Index Key ${name} Index: ${indexName}`
+        );
+      }
+    }
+  }
+};
+
+/** Comparator for index order: partition, sort, then the table key */
+const orderBy = (table: Table, schema: Schema) => {
+  const fields = [schema.pk, schema.sk, table.key.pk, table.key.sk].filter(
+    (name): name is string => Boolean(name)
+  );
+  return (a: Item, b: Item) => {
+    for (const field of fields) {
+      const order = compare(a[field], b[field]) ?? 0;
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+};
+
+const segmentOf = (value: unknown, totalSegments: number) => {
+  let hash = 2166136261;
+  for (const char of JSON.stringify(value)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+  }
+  return (hash >>> 0) % totalSegments;
+};
+
+const describe = (table: Table): TableDescription => {
+  const keySchema = (schema: Schema) => [
+    { AttributeName: schema.pk, KeyType: "HASH" as const },
+    ...(schema.sk ? [{ AttributeName: schema.sk, KeyType: "RANGE" as const }] : []),
+  ];
+  const indexes = Object.entries(table.indexes).map(([IndexName, schema]) => ({
+    IndexName,
+    KeySchema: keySchema(schema),
+    Projection: { ProjectionType: "ALL" as const },
+  }));
+  const attributes = new Set(
+    [table.key, ...Object.values(table.indexes)].flatMap((schema) =>
+      [schema.pk, schema.sk].filter((name): name is string => Boolean(name))
+    )
+  );
+  const local = indexes.filter(
+    (index) => index.KeySchema[0]!.AttributeName === table.key.pk
+  );
+  const global = indexes.filter((index) => !local.includes(index));
+  return {
+    TableName: table.name,
+    TableStatus: "ACTIVE",
+    ItemCount: table.items.size,
+    KeySchema: keySchema(table.key),
+    AttributeDefinitions: [...attributes].map((AttributeName) => ({
+      AttributeName,
+      AttributeType: "S" as const,
+    })),
+    BillingModeSummary: {
+      BillingMode: table.throughput ? "PROVISIONED" : "PAY_PER_REQUEST",
+    },
+    ...(table.throughput && {
+      ProvisionedThroughput: { ...table.throughput },
+    }),
+    ...(table.stream?.StreamEnabled && {
+      StreamSpecification: { ...table.stream },
+    }),
+    ...(local.length > 0 && { LocalSecondaryIndexes: local }),
+    ...(global.length > 0 && {
+      GlobalSecondaryIndexes: global.map((index) => ({
+        ...index,
+        IndexStatus: "ACTIVE" as const,
+      })),
+    }),
+  };
+};
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+/**
+ * In-memory DynamoDB for unit tests: a `Client` whose `send` runs commands
+ * against in-process tables instead of AWS.
+ *
+ * It evaluates the same key condition, filter, condition, update and
+ * projection expressions DynamoDB does (so everything `find`, `update`,
+ * `batchWrite`, `transact`, `entity`... build works unchanged), including
+ * LSI/GSI queries, pagination, parallel scan segments, `ConditionalCheckFailed`
+ * errors and transaction cancellations. Capacity, item size limits and
+ * eventual consistency are not emulated.
+ *
+ * @example
+ * ```ts
+ * const ddb = DDB.createMemory({ tables: { main: { items: [seedUser] } } });
+ *
+ * await DDB.update(ddb, { key, set: { name: "Bob" }, conditions: [...] });
+ * expect(await DDB.find(ddb, { pk: { value: "org#1" } })).toHaveLength(3);
+ * expect(ddb.items()).toContainEqual(expect.objectContaining({ name: "Bob" }));
+ *
+ * // Exercise retry paths: only 10 items per BatchWrite get processed
+ * const throttled = DDB.createMemory({ tables: { main: {} }, batchWriteLimit: 10 });
+ * ```
+ */
+export const createMemory = (props: _t.MemoryProps) => {
+  const tables = new Map<string, Table>();
+
+  const addTable = (name: string, config: _t.MemoryTable) => {
+    const key: Schema = {
+      pk: config.pk ?? "pk",
+      sk: config.sk === null ? undefined : (config.sk ?? "sk"),
+    };
+    const indexes = Object.fromEntries(
+      Object.entries(config.indexes ?? DEFAULT_INDEXES).map(
+        ([indexName, schema]) => [
+          indexName,
+          { pk: schema.pk ?? key.pk, sk: schema.sk ?? undefined },
+        ]
+      )
+    );
+    const table: Table = { name, key, indexes, items: new Map() };
+    for (const item of config.items ?? []) {
+      validateItem(table, item as Item);
+      table.items.set(storageKey(table, item as Item), clone(item as Item));
+    }
+    tables.set(name, table);
+    return table;
+  };
+
+  for (const [name, config] of Object.entries(props.tables)) {
+    addTable(name, config);
+  }
+
+  const tableOf = (name: string | undefined) => {
+    const table = name ? tables.get(name) : undefined;
+    if (!table) {
+      throw new ResourceNotFoundException({
+        message: "Requested resource not found",
+        $metadata: {},
+      });
+    }
+    return table;
+  };
+
+  const schemaOf = (table: Table, indexName: string | undefined) => {
+    if (!indexName) return table.key;
+    const schema = table.indexes[indexName];
+    if (!schema) {
+      throw validationError(
+        `The table does not have the specified index: ${indexName}`
+      );
+    }
+    return schema;
+  };
+
+  /** Query and Scan share everything but key conditions and ordering */
+  const read = (
+    input: QueryCommand["input"] & ScanCommand["input"],
+    mode: "query" | "scan"
+  ) => {
+    const table = tableOf(input.TableName);
+    const schema = schemaOf(table, input.IndexName);
+    const names = input.ExpressionAttributeNames;
+    const values = input.ExpressionAttributeValues;
+    const order = orderBy(table, schema);
+    const { Segment, TotalSegments } = input;
+
+    let candidates = [...table.items.values()].filter(
+      (item) =>
+        item[schema.pk] !== undefined &&
+        (!schema.sk || item[schema.sk] !== undefined) &&
+        (TotalSegments === undefined ||
+          segmentOf(item[table.key.pk], TotalSegments) === Segment)
+    );
+    if (mode === "query") {
+      if (!input.KeyConditionExpression) {
+        throw validationError(
+          "Either the KeyConditions or KeyConditionExpression parameter must be specified in the request."
+        );
+      }
+      candidates = candidates.filter((item) =>
+        matches(item, input.KeyConditionExpression, names, values)
+      );
+    }
+    candidates.sort(order);
+    if (mode === "query" && input.ScanIndexForward === false) {
+      candidates.reverse();
+    }
+
+    const start = input.ExclusiveStartKey;
+    if (start) {
+      const descending = mode === "query" && input.ScanIndexForward === false;
+      candidates = candidates.filter((item) => {
+        const position = order(item, start);
+        return descending ? position < 0 : position > 0;
+      });
+    }
+
+    const limit = input.Limit ?? Infinity;
+    const scanned = candidates.slice(0, limit);
+    const last = scanned.at(-1);
+    const more = candidates.length > scanned.length;
+    const items = scanned
+      .filter((item) => matches(item, input.FilterExpression, names, values))
+      .map((item) => project(item, input.ProjectionExpression, names));
+
+    return {
+      Items: items,
+      Count: items.length,
+      ScannedCount: scanned.length,
+      ...(more &&
+        last && {
+          LastEvaluatedKey: {
+            ...pickKey(table.key, last),
+            ...pickKey(schema, last),
+          },
+        }),
+      $metadata: {},
+    };
+  };
+
+  type Write = {
+    table: Table;
+    storage: string;
+    /** The new item, or `undefined` for a delete */
+    item: Item | undefined;
+  };
+
+  /** Evaluate one write without applying it */
+  const prepare = (request: WriteRequest) => {
+    const input =
+      "Put" in request
+        ? request.Put
+        : "Update" in request
+          ? request.Update
+          : "Delete" in request
+            ? request.Delete
+            : request.ConditionCheck;
+    const table = tableOf(input.TableName);
+    let key = (input as { Key?: Item }).Key;
+    if ("Put" in request) {
+      validateItem(table, request.Put.Item ?? {});
+      key = pickKey(table.key, request.Put.Item!);
+    }
+    const storage = keyOf(table, key);
+    const old = table.items.get(storage);
+    const passed = matches(
+      old,
+      input.ConditionExpression,
+      input.ExpressionAttributeNames,
+      input.ExpressionAttributeValues
+    );
+
+    let write: Write | undefined;
+    let touched: string[] = [];
+    if (passed && "Put" in request) {
+      write = { table, storage, item: clone(request.Put.Item!) };
+    } else if (passed && "Delete" in request) {
+      write = { table, storage, item: undefined };
+    } else if (passed && "Update" in request) {
+      const update = request.Update;
+      if (!update.UpdateExpression) {
+        throw validationError("UpdateExpression is required");
+      }
+      const result = applyUpdate(
+        old ?? clone(key!),
+        update.UpdateExpression,
+        update.ExpressionAttributeNames,
+        update.ExpressionAttributeValues
+      );
+      const keyNames = [table.key.pk, table.key.sk];
+      if (result.touched.some((name) => keyNames.includes(name))) {
+        throw validationError(
+          "One or more parameter values were invalid: Cannot update attribute pk. This attribute is part of the key"
+        );
+      }
+      validateItem(table, result.item);
+      write = { table, storage, item: result.item };
+      touched = result.touched;
+    }
+    return {
+      passed,
+      old,
+      write,
+      touched,
+      returnOld: input.ReturnValuesOnConditionCheckFailure,
+    };
+  };
+
+  const commit = (write: Write | undefined) => {
+    if (!write) return;
+    if (write.item) write.table.items.set(write.storage, write.item);
+    else write.table.items.delete(write.storage);
+  };
+
+  const single = (
+    request: WriteRequest,
+    returnValues: string | undefined
+  ) => {
+    const { passed, old, write, touched, returnOld } = prepare(request);
+    if (!passed) throw conditionFailed(old, returnOld);
+    commit(write);
+    const updated = (item: Item | undefined) =>
+      item &&
+      Object.fromEntries(
+        touched.filter((name) => name in item).map((name) => [name, item[name]])
+      );
+    const attributes =
+      returnValues === "ALL_OLD"
+        ? old
+        : returnValues === "ALL_NEW"
+          ? write?.item
+          : returnValues === "UPDATED_OLD"
+            ? updated(old)
+            : returnValues === "UPDATED_NEW"
+              ? updated(write?.item)
+              : undefined;
+    return {
+      ...(attributes && { Attributes: clone(attributes) }),
+      $metadata: {},
+    };
+  };
+
+  const get = (input: GetCommand["input"]) => {
+    const table = tableOf(input.TableName);
+    const item = table.items.get(keyOf(table, input.Key));
+    return {
+      ...(item && {
+        Item: project(
+          item,
+          input.ProjectionExpression,
+          input.ExpressionAttributeNames
+        ),
+      }),
+      $metadata: {},
+    };
+  };
+
+  const batchGet = (input: BatchGetCommand["input"]) => {
+    const requests = Object.entries(input.RequestItems ?? {});
+    const total = requests.reduce(
+      (sum, [, request]) => sum + (request.Keys?.length ?? 0),
+      0
+    );
+    if (total > 100) {
+      throw validationError(
+        "Too many items requested for the BatchGetItem call"
+      );
+    }
+    const Responses = Object.fromEntries(
+      requests.map(([tableName, request]) => {
+        const table = tableOf(tableName);
+        const items = (request.Keys ?? []).flatMap((key) => {
+          const item = table.items.get(keyOf(table, key));
+          return item
+            ? [
+                project(
+                  item,
+                  request.ProjectionExpression,
+                  request.ExpressionAttributeNames
+                ),
+              ]
+            : [];
+        });
+        return [tableName, items];
+      })
+    );
+    return { Responses, UnprocessedKeys: {}, $metadata: {} };
+  };
+
+  const batchWrite = (input: BatchWriteCommand["input"]) => {
+    const requests = Object.entries(input.RequestItems ?? {}).flatMap(
+      ([tableName, writes]) => writes.map((write) => ({ tableName, write }))
+    );
+    if (requests.length > 25) {
+      throw validationError(
+        "Too many items requested for the BatchWriteItem call"
+      );
+    }
+    const limit = props.batchWriteLimit ?? Infinity;
+    const processed = requests.slice(0, limit);
+    const prepared = processed.map(({ tableName, write }) => {
+      const table = tableOf(tableName);
+      if (write.PutRequest) {
+        const item = write.PutRequest.Item as Item;
+        validateItem(table, item);
+        return { table, storage: storageKey(table, item), item: clone(item) };
+      }
+      return {
+        table,
+        storage: keyOf(table, write.DeleteRequest?.Key),
+        item: undefined,
+      };
+    });
+    const storages = prepared.map((w) => `${w.table.name}:${w.storage}`);
+    if (new Set(storages).size !== storages.length) {
+      throw validationError(
+        "Provided list of item keys contains duplicates"
+      );
+    }
+    prepared.forEach(commit);
+
+    const UnprocessedItems: Record<string, unknown[]> = {};
+    for (const { tableName, write } of requests.slice(processed.length)) {
+      (UnprocessedItems[tableName] ??= []).push(write);
+    }
+    return { UnprocessedItems, $metadata: {} };
+  };
+
+  const transactWrite = (input: TransactWriteCommand["input"]) => {
+    const items = input.TransactItems ?? [];
+    if (items.length > 100) {
+      throw validationError(
+        "Member must have length less than or equal to 100"
+      );
+    }
+    const results = items.map((entry) => {
+      const request = entry.Put
+        ? { Put: entry.Put }
+        : entry.Update
+          ? { Update: entry.Update }
+          : entry.Delete
+            ? { Delete: entry.Delete }
+            : entry.ConditionCheck
+              ? { ConditionCheck: entry.ConditionCheck }
+              : undefined;
+      if (!request) throw validationError("Invalid transaction item");
+      return prepare(request as WriteRequest);
+    });
+
+    const targets = results.map(({ write }, i) => {
+      const entry = items[i]!;
+      const input = entry.ConditionCheck ?? entry.Put ?? entry.Update ?? entry.Delete;
+      return write
+        ? `${write.table.name}:${write.storage}`
+        : `${input?.TableName}:${JSON.stringify(
+            (input as { Key?: Item; Item?: Item }).Key ??
+              (input as { Item?: Item }).Item
+          )}`;
+    });
+    if (new Set(targets).size !== targets.length) {
+      throw validationError(
+        "Transaction request cannot include multiple operations on one item"
+      );
+    }
+
+    if (results.some((result) => !result.passed)) {
+      const CancellationReasons = results.map(({ passed, old, returnOld }) =>
+        passed
+          ? { Code: "None" }
+          : {
+              Code: "ConditionalCheckFailed",
+              Message: "The conditional request failed",
+              ...(old && returnOld === "ALL_OLD" && { Item: marshallItem(old) }),
+            }
+      );
+      throw new TransactionCanceledException({
+        message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${CancellationReasons.map((r) => r.Code).join(", ")}]`,
+        $metadata: {},
+        CancellationReasons,
+      });
+    }
+    results.forEach(({ write }) => commit(write));
+    return { $metadata: {} };
+  };
+
+  const createTable = (input: CreateTableCommand["input"]) => {
+    const name = input.TableName!;
+    if (tables.has(name)) {
+      throw new ResourceInUseException({
+        message: `Table already exists: ${name}`,
+        $metadata: {},
+      });
+    }
+    const keysOf = (keys: { AttributeName?: string; KeyType?: string }[] = []) => ({
+      pk: keys.find((k) => k.KeyType === "HASH")?.AttributeName,
+      sk: keys.find((k) => k.KeyType === "RANGE")?.AttributeName ?? null,
+    });
+    const indexes = Object.fromEntries(
+      [
+        ...(input.LocalSecondaryIndexes ?? []),
+        ...(input.GlobalSecondaryIndexes ?? []),
+      ].map((index) => [index.IndexName!, keysOf(index.KeySchema)])
+    );
+    const table = addTable(name, { ...keysOf(input.KeySchema), indexes });
+    if (input.BillingMode === "PROVISIONED") {
+      table.throughput = input.ProvisionedThroughput;
+    }
+    table.stream = input.StreamSpecification;
+    return { TableDescription: describe(table), $metadata: {} };
+  };
+
+  const updateTable = (input: UpdateTableCommand["input"]) => {
+    const table = tableOf(input.TableName);
+    for (const update of input.GlobalSecondaryIndexUpdates ?? []) {
+      if (update.Create) {
+        const { IndexName, KeySchema = [] } = update.Create;
+        if (table.indexes[IndexName!]) {
+          throw validationError(`Index already exists: ${IndexName}`);
+        }
+        table.indexes[IndexName!] = {
+          pk: KeySchema.find((k) => k.KeyType === "HASH")!.AttributeName!,
+          sk: KeySchema.find((k) => k.KeyType === "RANGE")?.AttributeName,
+        };
+      }
+      if (update.Delete) delete table.indexes[update.Delete.IndexName!];
+    }
+    if (input.BillingMode === "PAY_PER_REQUEST") table.throughput = undefined;
+    if (input.ProvisionedThroughput) {
+      table.throughput = input.ProvisionedThroughput;
+    }
+    if (input.StreamSpecification) {
+      if (input.StreamSpecification.StreamEnabled && table.stream?.StreamEnabled) {
+        throw validationError("Table already has an enabled stream");
+      }
+      table.stream = input.StreamSpecification;
+    }
+    return { TableDescription: describe(table), $metadata: {} };
+  };
+
+  const send = async (command: { input: unknown }) => {
+    const input = command.input as never;
+    if (command instanceof GetCommand) return get(input);
+    if (command instanceof QueryCommand) return read(input, "query");
+    if (command instanceof ScanCommand) return read(input, "scan");
+    if (command instanceof PutCommand) {
+      return single(
+        { Put: input },
+        (input as PutCommand["input"]).ReturnValues
+      );
+    }
+    if (command instanceof UpdateCommand) {
+      return single(
+        { Update: input },
+        (input as UpdateCommand["input"]).ReturnValues
+      );
+    }
+    if (command instanceof DeleteCommand) {
+      return single(
+        { Delete: input },
+        (input as DeleteCommand["input"]).ReturnValues
+      );
+    }
+    if (command instanceof BatchGetCommand) return batchGet(input);
+    if (command instanceof BatchWriteCommand) return batchWrite(input);
+    if (command instanceof TransactWriteCommand) return transactWrite(input);
+    if (command instanceof DescribeTableCommand) {
+      const table = tableOf((input as { TableName?: string }).TableName);
+      return { Table: describe(table), $metadata: {} };
+    }
+    if (command instanceof CreateTableCommand) return createTable(input);
+    if (command instanceof UpdateTableCommand) return updateTable(input);
+    if (command instanceof DescribeTimeToLiveCommand) {
+      const table = tableOf((input as { TableName?: string }).TableName);
+      return {
+        TimeToLiveDescription: table.ttl
+          ? { TimeToLiveStatus: "ENABLED", AttributeName: table.ttl }
+          : { TimeToLiveStatus: "DISABLED" },
+        $metadata: {},
+      };
+    }
+    if (command instanceof UpdateTimeToLiveCommand) {
+      const { TableName, TimeToLiveSpecification: spec } =
+        input as UpdateTimeToLiveCommand["input"];
+      const table = tableOf(TableName);
+      table.ttl = spec?.Enabled ? spec.AttributeName : undefined;
+      return { TimeToLiveSpecification: spec, $metadata: {} };
+    }
+    if (command instanceof DescribeContinuousBackupsCommand) {
+      const table = tableOf((input as { TableName?: string }).TableName);
+      const status = table.pitr ? "ENABLED" : "DISABLED";
+      return {
+        ContinuousBackupsDescription: {
+          ContinuousBackupsStatus: "ENABLED",
+          PointInTimeRecoveryDescription: { PointInTimeRecoveryStatus: status },
+        },
+        $metadata: {},
+      };
+    }
+    if (command instanceof UpdateContinuousBackupsCommand) {
+      const { TableName, PointInTimeRecoverySpecification: spec } =
+        input as UpdateContinuousBackupsCommand["input"];
+      const table = tableOf(TableName);
+      table.pitr = Boolean(spec?.PointInTimeRecoveryEnabled);
+      return { $metadata: {} };
+    }
+    if (command instanceof DeleteTableCommand) {
+      const table = tableOf((input as { TableName?: string }).TableName);
+      tables.delete(table.name);
+      return { TableDescription: describe(table), $metadata: {} };
+    }
+    throw new Error(
+      `[ddb] [memory] unsupported command ${command.constructor.name}`
+    );
+  };
+
+  const tableName =
+    props.tableName ??
+    (tables.size === 1 ? [...tables.keys()][0] : undefined);
+
+  const client: Client = {
+    client: { send } as unknown as DynamoDBDocumentClient,
+    tableName,
+  };
+
+  return {
+    ...client,
+    /** Snapshot of a table's items in key order (default: the default table) */
+    items: (name = tableName) => {
+      const table = tableOf(name);
+      return [...table.items.values()].sort(orderBy(table, table.key)).map(clone);
+    },
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createMemory } from "./memory";
+import { migrate } from "./migrate";
+import type { Migration } from "./types";
+
+describe("server/aws/ddb migrate", () => {
+  it("runs pending migrations once, in order, recording them in the table", async () => {
+    const ddb = createMemory({
+      tables: {
+        main: {
+          items: [
+            { pk: "org#1", sk: "user#1", email: "a@b.co" },
+            { pk: "org#1", sk: "user#2", email: "c@d.co", lsi1: "email#c@d.co" },
+            { pk: "org#1", sk: "org" },
+          ],
+        },
+      },
+    });
+    const order: number[] = [];
+    const migrations: Migration[] = [
+      {
+        version: 2,
+        name: "user-email-lsi",
+        up: async () => {
+          order.push(2);
+        },
+        backfill: {
+          filters: [{ key: "sk", op: "begins_with", value: "user#" }],
+          transform: (user) =>
+            user.lsi1 ? undefined : { ...user, lsi1: `email#${user.email}` },
+        },
+      },
+      {
+        version: 1,
+        name: "noop",
+        up: async () => {
+          order.push(1);
+        },
+      },
+    ];
+
+    expect(await migrate(ddb, { migrations, to: 1 })).toEqual({
+      applied: [{ version: 1, name: "noop", backfilled: 0 }],
+      version: 1,
+    });
+    expect(await migrate(ddb, { migrations })).toEqual({
+      applied: [{ version: 2, name: "user-email-lsi", backfilled: 1 }],
+      version: 2,
+    });
+    expect(await migrate(ddb, { migrations })).toEqual({ applied: [], version: 2 });
+
+    expect(order).toEqual([1, 2]);
+    const items = ddb.items();
+    expect(items.find((item) => item.sk === "user#1")).toMatchObject({
+      lsi1: "email#a@b.co",
+    });
+    expect(items.filter((item) => item.pk === "_migration")).toMatchObject([
+      { sk: "v000001", name: "noop" },
+      { sk: "v000002", name: "user-email-lsi", backfilled: 1 },
+    ]);
+
+    await expect(
+      migrate(ddb, { migrations: [...migrations, { version: 2, name: "again" }] })
+    ).rejects.toThrow("[ddb] [migrate] duplicate version 2 (again)");
+  });
+});
@@ -0,0 +1,132 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import signale from "signale";
+import { batchWrite, find, iterate, type Client } from "./domain";
+import * as _t from "./types";
+import * as _f from "./fns";
+
+/** Partition holding one record per applied migration */
+const MIGRATIONS_PK = "_migration";
+
+const migrationSk = (version: number) =>
+  `v${String(version).padStart(6, "0")}`;
+
+/**
+ * Run versioned data migrations against a table, each at most once.
+ *
+ * Applied migrations are recorded in the table itself, one item per version
+ * under `pk: "_migration"`, so every environment tracks its own state.
+ * Pending migrations run in ascending `version` order: first `up`, then the
+ * `backfill`, which scans the table (skipping the migration records) and
+ * batch-writes whatever `transform` returns.
+ *
+ * A migration is recorded only after it finished, so one that failed halfway
+ * runs again from the start next time; keep `up` and `transform` idempotent.
+ *
+ * @example
+ * ```ts
+ * await DDB.migrate(ddb, {
+ *   migrations: [
+ *     {
+ *       version: 1,
+ *       name: "user-email-lsi",
+ *       backfill: {
+ *         filters: [{ key: "sk", op: "begins_with", value: "user#" }],
+ *         transform: (user) =>
+ *           user.lsi1 ? undefined : { ...user, lsi1: `email#${user.email}` },
+ *       },
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export const migrate = async (
+  ddb: Client,
+  props: _t.MigrateProps
+): Promise<_t.MigrateResult> => {
+  const TableName = _f.getTableNameOrThrow(props.tableName, ddb.tableName);
+  const tableProps = { tableName: TableName };
+
+  const seen = new Set<number>();
+  for (const migration of props.migrations) {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(
+        `[ddb] [migrate] version must be a positive integer, got ${migration.version} (${migration.name})`
+      );
+    }
+    if (seen.has(migration.version)) {
+      throw new Error(
+        `[ddb] [migrate] duplicate version ${migration.version} (${migration.name})`
+      );
+    }
+    seen.add(migration.version);
+  }
+
+  const records = await find<{ version: number }>(ddb, {
+    ...tableProps,
+    pk: { value: MIGRATIONS_PK },
+    recursive: true,
+    strong: true,
+  });
+  const applied = new Set(records.map((record) => record.version));
+  const pending = props.migrations
+    .filter((migration) => !applied.has(migration.version))
+    .filter((migration) => props.to === undefined || migration.version <= props.to)
+    .sort((a, b) => a.version - b.version);
+
+  const result: _t.MigrateResult["applied"] = [];
+  for (const migration of pending) {
+    const label = `[ddb] [migrate] [${migration.version}:${migration.name}]`;
+    if (props.log) signale.log(`${label} running`);
+
+    await migration.up?.(ddb);
+
+    let backfilled = 0;
+    if (migration.backfill) {
+      const { filters = [], transform, segments } = migration.backfill;
+      for await (const page of iterate(ddb, {
+        ...tableProps,
+        scan: true,
+        ...(segments && { segments }),
+        filters: [{ key: "pk", op: "<>", value: MIGRATIONS_PK }, ...filters],
+        pages: true,
+      })) {
+        const items: { item: Record<string, unknown> }[] = [];
+        for (const item of page.items) {
+          const next = await transform(item);
+          if (next) items.push({ item: next });
+        }
+        if (items.length === 0) continue;
+        const written = await batchWrite(ddb, { ...tableProps, items });
+        if (written.failed > 0) {
+          throw new Error(`${label} failed to write ${written.failed} items`);
+        }
+        backfilled += written.processed;
+      }
+    }
+
+    try {
+      await ddb.client.send(
+        new PutCommand({
+          TableName,
+          Item: {
+            pk: MIGRATIONS_PK,
+            sk: migrationSk(migration.version),
+            version: migration.version,
+            name: migration.name,
+            backfilled,
+            appliedAt: new Date().toISOString(),
+          },
+          ConditionExpression: "attribute_not_exists(pk)",
+        })
+      );
+    } catch (error) {
+      // Another runner recorded it meanwhile; the work is idempotent
+      if (!_f.isConditionalConflictError(error)) throw error;
+    }
+    applied.add(migration.version);
+    result.push({ version: migration.version, name: migration.name, backfilled });
+    if (props.log) signale.success(`${label} applied (${backfilled} items)`);
+  }
+
+  return { applied: result, version: Math.max(0, ...applied) };
+};
@@ -1,12 +1,31 @@
-import type { NativeAttributeValue } from "@aws-sdk/lib-dynamodb";
+import type {
+  NativeAttributeValue,
+  TranslateConfig,
+} from "@aws-sdk/lib-dynamodb";
 import type {
   DynamoDBClient,
   DynamoDBClientConfig,
 } from "@aws-sdk/client-dynamodb";
+import type { Schema } from "../../../shared/types";
+import type { Client } from "./domain";
 
 export type TableClient = DynamoDBClient;
 export type Credentials = DynamoDBClientConfig["credentials"];
 
+/**
+ * Props for `create`: any `DynamoDBClientConfig` (region, endpoint,
+ * credentials, maxAttempts, requestHandler, ...) plus the default table and
+ * document-client (un)marshall overrides.
+ */
+export type CreateProps = DynamoDBClientConfig & {
+  /** Default table for every call (optional, can be passed per call) */
+  tableName?: string;
+  /** Merged over the defaults (`removeUndefinedValues: true`) */
+  marshallOptions?: TranslateConfig["marshallOptions"];
+  /** Merged over the defaults, e.g. `{ wrapNumbers: true }` for bigints */
+  unmarshallOptions?: TranslateConfig["unmarshallOptions"];
+};
+
 export type Key = { pk: Pk; sk: Sk };
 // export type Key = { pk: string; sk: string };
 
@@ -20,6 +39,21 @@ export type RawResponse<T> = {
   scannedCount: number;
   count: number;
   items: T[];
+  /** Segment the page was read from (parallel scans via `iterate`) */
+  segment?: number;
+};
+
+/** Reported after every page of a parallel scan (and when a segment ends) */
+export type ScanProgress = {
+  /** Segment that just produced a page or finished */
+  segment: number;
+  totalSegments: number;
+  /** Segments scanned to the end so far */
+  segmentsDone: number;
+  /** Pages fetched across all segments */
+  pages: number;
+  /** Items fetched across all segments */
+  items: number;
 };
 type RecursiveFn<T> = (
   page: RawResponse<T>,
@@ -58,38 +92,45 @@ type AllowsContains<V> = V extends string
 type AllowsBetween<V> = V extends Comparable ? true : false;
 type AllowsIn<V> = V extends Comparable ? true : false;
 
-type EqNeClause<T, K extends StrKey<T>> = {
+type AllowsSize<V> = V extends
+  | string
+  | Uint8Array
+  | ReadonlyArray<unknown>
+  | ReadonlySet<unknown>
+  | Record<string, unknown>
+  ? true
+  : false;
+
+type EqNeClause<K extends string, V> = {
   key: K;
   op: "=" | "<>";
-  value: T[K];
+  value: V;
 };
 
-type OrdClause<T, K extends StrKey<T>> = AllowsOrder<T[K]> extends true
+type OrdClause<K extends string, V> = AllowsOrder<V> extends true
   ? {
       key: K;
       op: ">" | ">=" | "<" | "<=";
-      value: Extract<T[K], Comparable>;
+      value: Extract<V, Comparable>;
     }
   : never;
 
-type BeginsWithClause<T, K extends StrKey<T>> = AllowsBeginsWith<
-  T[K]
-> extends true
+type BeginsWithClause<K extends string, V> = AllowsBeginsWith<V> extends true
   ? {
       key: K;
       op: "begins_with";
-      value: Extract<T[K], string>;
+      value: Extract<V, string>;
     }
   : never;
 
-type ContainsClause<T, K extends StrKey<T>> = AllowsContains<T[K]> extends true
-  ? T[K] extends string
+type ContainsClause<K extends string, V> = AllowsContains<V> extends true
+  ? V extends string
     ? {
         key: K;
         op: "contains";
         value: string;
       }
-    : T[K] extends
+    : V extends
         | ReadonlyArray<infer U>
         | Array<infer U>
         | ReadonlySet<infer U>
@@ -102,40 +143,119 @@ type ContainsClause<T, K extends StrKey<T>> = AllowsContains<T[K]> extends true
     : never
   : never;
 
-type BetweenClause<T, K extends StrKey<T>> = AllowsBetween<T[K]> extends true
+type BetweenClause<K extends string, V> = AllowsBetween<V> extends true
   ? {
       key: K;
       op: "between";
-      value: readonly [Extract<T[K], Comparable>, Extract<T[K], Comparable>];
+      value: readonly [Extract<V, Comparable>, Extract<V, Comparable>];
     }
   : never;
 
-type InClause<T, K extends StrKey<T>> = AllowsIn<T[K]> extends true
+type InClause<K extends string, V> = AllowsIn<V> extends true
   ? {
       key: K;
       op: "in";
-      value: ReadonlyArray<Extract<T[K], Comparable>>;
+      value: ReadonlyArray<Extract<V, Comparable>>;
     }
   : never;
 
-type ExistsClause<T, K extends StrKey<T>> = {
+/** `size(key) <cmp> value`: length of strings/binary, entries of lists/sets/maps */
+type SizeClause<K extends string, V> = AllowsSize<V> extends true
+  ? {
+      key: K;
+      op: "size";
+      cmp: "=" | "<>" | ">" | ">=" | "<" | "<=";
+      value: number;
+    }
+  : never;
+
+type ExistsClause<K extends string> = {
   key: K;
   op: "attribute_exists" | "attribute_not_exists";
 };
 
-type FilterClauseForKey<T, K extends StrKey<T>> =
-  | EqNeClause<T, K>
-  | OrdClause<T, K>
-  | BeginsWithClause<T, K>
-  | ContainsClause<T, K>
-  | BetweenClause<T, K>
-  | InClause<T, K>
-  | ExistsClause<T, K>;
+/** DynamoDB attribute type descriptors, for `attribute_type` */
+export type AttributeType =
+  | "S"
+  | "SS"
+  | "N"
+  | "NS"
+  | "B"
+  | "BS"
+  | "BOOL"
+  | "NULL"
+  | "L"
+  | "M";
 
-/** One clause type that's keyed & value-typed from T */
-export type FilterClause<T extends object> = {
-  [K in StrKey<T>]: FilterClauseForKey<T, K>;
-}[StrKey<T>];
+type TypeClause<K extends string> = {
+  key: K;
+  op: "attribute_type";
+  value: AttributeType;
+};
+
+type FilterClauseForKey<K extends string, V> =
+  | EqNeClause<K, V>
+  | OrdClause<K, V>
+  | BeginsWithClause<K, V>
+  | ContainsClause<K, V>
+  | BetweenClause<K, V>
+  | InClause<K, V>
+  | SizeClause<K, V>
+  | ExistsClause<K>
+  | TypeClause<K>;
+
+// Paths into maps (`address.city`) and lists (`tags[0]`), up to 4 levels deep
+type PathDepth = [never, 0, 1, 2, 3];
+type SubPath<V, D extends number> = [D] extends [never]
+  ? never
+  : V extends ReadonlyArray<infer U>
+  ? `[${number}]` | `[${number}]${SubPath<U, PathDepth[D]>}`
+  : V extends ReadonlySet<unknown> | Uint8Array
+  ? never
+  : V extends object
+  ? {
+      [K in StrKey<V>]: `.${K}` | `.${K}${SubPath<V[K], PathDepth[D]>}`;
+    }[StrKey<V>]
+  : never;
+
+/** Attribute paths of T usable as a clause `key` */
+export type FilterPath<T> = string extends keyof T
+  ? string
+  : { [K in StrKey<T>]: K | `${K}${SubPath<T[K], 3>}` }[StrKey<T>];
+
+type PathStep<V, S extends string> = S extends `[${string}]`
+  ? NonNullable<V> extends ReadonlyArray<infer U>
+    ? U
+    : unknown
+  : S extends keyof NonNullable<V>
+  ? NonNullable<V>[S]
+  : unknown;
+type SplitIndexes<P extends string> = P extends `${infer A}[${infer B}`
+  ? `${A}.[${SplitIndexes<B>}`
+  : P;
+type ValueAt<V, P extends string> = P extends `${infer H}.${infer R}`
+  ? ValueAt<PathStep<V, H>, R>
+  : PathStep<V, P>;
+
+/** Value type found at a path of T (`unknown` where T doesn't describe it) */
+export type PathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : ValueAt<T, SplitIndexes<P>>;
+
+type FilterLeaf<T> = FilterPath<T> extends infer P
+  ? P extends string
+    ? FilterClauseForKey<P, PathValue<T, P>>
+    : never
+  : never;
+
+/** Boolean grouping of clauses; `filters`/`conditions` lists are ANDed */
+export type FilterGroup<T extends object> =
+  | { and: ReadonlyArray<FilterClause<T>> }
+  | { or: ReadonlyArray<FilterClause<T>> }
+  | { not: FilterClause<T> };
+
+/** One clause type that's keyed & value-typed from T (or a group of them) */
+export type FilterClause<T extends object> = FilterLeaf<T> | FilterGroup<T>;
 
 // // Test examples showing type inference (boolean discriminators)
 // type User = { pk: string; sk: string };
@@ -186,7 +306,7 @@ type BaseFindProps<T extends object = Record<string, unknown>> = {
   tableName?: string;
   /**
    * Type-safe filter clauses for post-query/scan filtering (optional)
-   * Array of filter clauses, all combined with AND logic
+   * Array of filter clauses (or groups), all combined with AND logic
    *
    * Examples:
    * ```ts
@@ -217,6 +337,22 @@ type BaseFindProps<T extends object = Record<string, unknown>> = {
    *   { key: 'age', op: 'between', value: [18, 65] },
    *   { key: 'status', op: 'in', value: ['active', 'pending', 'approved'] }
    * ]
+   *
+   * // OR / NOT groups (nestable)
+   * filters: [
+   *   { or: [
+   *     { key: 'role', op: '=', value: 'admin' },
+   *     { not: { key: 'suspended', op: 'attribute_exists' } }
+   *   ] }
+   * ]
+   *
+   * // Nested paths, size() and attribute_type()
+   * filters: [
+   *   { key: 'address.city', op: '=', value: 'Oslo' },
+   *   { key: 'tags[0]', op: '=', value: 'vip' },
+   *   { key: 'tags', op: 'size', cmp: '>', value: 2 },
+   *   { key: 'score', op: 'attribute_type', value: 'N' }
+   * ]
    * ```
    */
   filters?: ReadonlyArray<FilterClause<T>>;
@@ -262,6 +398,11 @@ type QueryFindProps<T extends object = Record<string, unknown>> =
     indexName?: string;
     /** Sort order: ascending or descending (default: asc). Only available for Query. */
     sort?: "asc" | "desc";
+    /** Segments are only available for Scan */
+    segments?: never;
+    segment?: never;
+    concurrency?: never;
+    onProgress?: never;
   };
 
 /** Scan-specific props (scan: true) */
@@ -277,6 +418,23 @@ type ScanFindProps<T extends object = Record<string, unknown>> =
     indexName?: string;
     /** sort is not available for Scan - DynamoDB returns items in storage order */
     sort?: never;
+    /**
+     * Split the scan into this many segments (`TotalSegments`) and read them
+     * in parallel (optional). Like a sequential scan, `find` returns the first
+     * page to arrive unless `recursive` asks for more, bounded by
+     * `maxItems`/`maxPages` across all segments. Segments stop at different
+     * keys, so the result has no `lastEvaluatedKey` to resume from.
+     */
+    segments?: number;
+    /**
+     * Scan only this segment (0-based) of `segments`, sequentially, e.g. to
+     * fan segments out to separate workers (optional)
+     */
+    segment?: number;
+    /** Maximum segments read at the same time (default: all `segments`) */
+    concurrency?: number;
+    /** Progress callback for parallel scans */
+    onProgress?: (progress: ScanProgress) => void;
   };
 
 /**
@@ -310,10 +468,47 @@ export type FindProps<T extends object = Record<string, unknown>> =
 // Batch Operation Types
 // ============================================================================
 
+/** Primary key as requested from `get`/`batchGet` */
+export type BatchGetKey = { pk: string; sk?: string };
+
+export type GetProps<T extends object = Record<string, unknown>> = {
+  key: BatchGetKey;
+  tableName?: string;
+  /** Strongly consistent read (default: false) */
+  strong?: boolean;
+  /** Attributes to return (default: all) */
+  projection?: (keyof T)[];
+};
+
+/** One table's keys (and read options) in a multi-table `batchGet` */
+export type BatchGetTableRequest<T extends object = Record<string, unknown>> =
+  {
+    keys: BatchGetKey[];
+    strong?: boolean;
+    /**
+     * Attributes to return (default: all). Key attributes are always
+     * included, since they match items back to the requested keys.
+     */
+    projection?: (keyof T)[];
+  };
+
 export type BatchGetResult<T> = {
+  /** Found items, in requested key order */
   items: T[];
   count: number;
   missing: number;
+  /** Keys with no item (or still unprocessed after the retries) */
+  missingKeys: BatchGetKey[];
+  consumedCapacity?: number | undefined;
+};
+
+/** Multi-table `batchGet` results, keyed like the request's `tables` */
+export type BatchGetTablesResult<R extends Record<string, object>> = {
+  tables: {
+    [N in keyof R]: { items: R[N][]; missingKeys: BatchGetKey[] };
+  };
+  count: number;
+  missing: number;
   consumedCapacity?: number | undefined;
 };
 export type BatchWriteResult = {
@@ -327,6 +522,69 @@ export type BatchDeleteResult = {
   consumedCapacity?: number | undefined;
 };
 
+// ============================================================================
+// Optimistic Locking
+// ============================================================================
+
+/** Optimistic locking options for `save`, `update` and transact put/update */
+export type VersionedProps = {
+  /**
+   * Optimistic locking on a numeric `version` attribute: the write only
+   * succeeds while the stored version still matches the expected one, and
+   * bumps it by one. Mismatches throw `VersionConflictError`.
+   */
+  versioned?: boolean;
+  /** Version attribute name (implies `versioned`; default: `"version"`) */
+  versionKey?: string;
+};
+
+/**
+ * Thrown by versioned writes when the stored version no longer matches the
+ * one the caller read, i.e. someone else wrote the item in between. Re-read
+ * and retry (or surface a 409).
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await update<Doc>(ddb, { key, set: { title }, versioned: true, version: doc.version });
+ * } catch (err) {
+ *   if (err instanceof VersionConflictError) return reloadAndRetry();
+ *   throw err;
+ * }
+ * ```
+ */
+export class VersionConflictError extends Error {
+  /** Primary key of the conflicting item */
+  key: Record<string, unknown>;
+  tableName: string;
+  versionKey: string;
+  /** Version the write expected; `undefined` when it expected a new item */
+  expected: number | undefined;
+  /** Version currently stored (when DynamoDB returned the item) */
+  actual: number | undefined;
+
+  constructor(props: {
+    key: Record<string, unknown>;
+    tableName: string;
+    versionKey: string;
+    expected: number | undefined;
+    actual: number | undefined;
+    cause?: unknown;
+  }) {
+    super(
+      `[ddb] version conflict on ${JSON.stringify(props.key)} in ${props.tableName}: ` +
+        `expected ${props.versionKey} ${props.expected ?? "to not exist"}, found ${props.actual ?? "none"}`,
+      { cause: props.cause }
+    );
+    this.name = "VersionConflictError";
+    this.key = props.key;
+    this.tableName = props.tableName;
+    this.versionKey = props.versionKey;
+    this.expected = props.expected;
+    this.actual = props.actual;
+  }
+}
+
 // Transaction Types
 
 /** Expression attribute values for condition expressions */
@@ -345,7 +603,8 @@ export type ExprNames = Record<string, string>;
  * { put: { item: user, cond: 'attribute_not_exists(pk)' } }
  */
 export type TransactPut<T extends object = Record<string, unknown>> = {
-  put: {
+  /** `versioned`: the item's version attribute is the expected version */
+  put: VersionedProps & {
     item: T;
     /** Type-safe conditions (like filters). Auto-generates expression attributes. */
     conditions?: ReadonlyArray<FilterClause<T>>;
@@ -457,13 +716,16 @@ export type UpdateOperations<T extends object = Record<string, unknown>> = {
  * ```
  */
 export type TransactUpdate<T extends object = Record<string, unknown>> = {
-  update: UpdateOperations<T> & {
-    key: Key;
-    /** Type-safe conditions (like filters). Auto-generates expression attributes. */
-    conditions?: ReadonlyArray<FilterClause<T>>;
-    /** Raw condition expression. Use conditions for type-safety. */
-    cond?: string;
-  };
+  update: UpdateOperations<T> &
+    VersionedProps & {
+      key: Key;
+      /** Version read with the item (`versioned`); omit for a new item */
+      version?: number;
+      /** Type-safe conditions (like filters). Auto-generates expression attributes. */
+      conditions?: ReadonlyArray<FilterClause<T>>;
+      /** Raw condition expression. Use conditions for type-safety. */
+      cond?: string;
+    };
 };
 
 /** Return values options for update operations */
@@ -477,36 +739,39 @@ export type UpdateReturnValues =
 /**
  * Props for standalone update function
  */
-export type UpdateProps<T extends object = Record<string, unknown>> = {
-  /** Table name (optional if set on client) */
-  tableName?: string;
-  /** Primary key of item to update */
-  key: Key;
-  /** Type-safe conditions (like filters) */
-  conditions?: ReadonlyArray<FilterClause<T>>;
-  /** Raw condition expression */
-  cond?: string;
-  /** What values to return after update */
-  returnValues?: UpdateReturnValues;
-  /** SET: assign values to attributes */
-  set?: Partial<T>;
-  /** INCREMENT: add to numeric attributes (use negative to decrement) */
-  incr?: Partial<Record<keyof T, number>>;
-  /** REMOVE: list of attribute names to remove */
-  remove?: (keyof T)[];
-  /** LIST APPEND: append values to list attributes */
-  append?: Partial<Record<keyof T, unknown[]>>;
-  /** LIST PREPEND: prepend values to list attributes */
-  prepend?: Partial<Record<keyof T, unknown[]>>;
-  /** IF NOT EXISTS: set value only if attribute doesn't exist */
-  ifNotExists?: Partial<T>;
-  /** ADD: atomic add to numeric attributes (creates attribute if missing) */
-  add?: Partial<Record<keyof T, number>>;
-  /** SET PATH: update nested attributes using dot notation */
-  setPath?: Record<string, unknown>;
-  /** COMPUTE: cross-attribute math operations */
-  compute?: Partial<Record<keyof T, [keyof T, "+" | "-", keyof T]>>;
-};
+export type UpdateProps<T extends object = Record<string, unknown>> =
+  VersionedProps & {
+    /** Table name (optional if set on client) */
+    tableName?: string;
+    /** Primary key of item to update */
+    key: Key;
+    /** Version read with the item (`versioned`); omit for a new item */
+    version?: number;
+    /** Type-safe conditions (like filters) */
+    conditions?: ReadonlyArray<FilterClause<T>>;
+    /** Raw condition expression */
+    cond?: string;
+    /** What values to return after update */
+    returnValues?: UpdateReturnValues;
+    /** SET: assign values to attributes */
+    set?: Partial<T>;
+    /** INCREMENT: add to numeric attributes (use negative to decrement) */
+    incr?: Partial<Record<keyof T, number>>;
+    /** REMOVE: list of attribute names to remove */
+    remove?: (keyof T)[];
+    /** LIST APPEND: append values to list attributes */
+    append?: Partial<Record<keyof T, unknown[]>>;
+    /** LIST PREPEND: prepend values to list attributes */
+    prepend?: Partial<Record<keyof T, unknown[]>>;
+    /** IF NOT EXISTS: set value only if attribute doesn't exist */
+    ifNotExists?: Partial<T>;
+    /** ADD: atomic add to numeric attributes (creates attribute if missing) */
+    add?: Partial<Record<keyof T, number>>;
+    /** SET PATH: update nested attributes using dot notation */
+    setPath?: Record<string, unknown>;
+    /** COMPUTE: cross-attribute math operations */
+    compute?: Partial<Record<keyof T, [keyof T, "+" | "-", keyof T]>>;
+  };
 
 /**
  * ConditionCheck operation - validates a condition without modifying the item
@@ -549,3 +814,213 @@ export type TransactResult = {
   /** Consumed capacity units (if returned by DynamoDB) */
   consumedCapacity?: number;
 };
+
+// ============================================================================
+// Entity Types
+// ============================================================================
+
+/** Generic LSI slots (see `literals.ts`) an entity can populate. */
+export type LsiName = "lsi1" | "lsi2" | "lsi3" | "lsi4" | "lsi5";
+
+/** Computes a key attribute (e.g. `user#${u.id}`) from an item. */
+export type KeyFn<T> = (item: T) => string;
+
+/**
+ * Key attributes of an entity: `pk`/`sk` are required, `lsi1..lsi5` are
+ * optional sort keys for the generic LSIs. An LSI whose function reads an
+ * attribute the item doesn't have is left off the item (sparse index).
+ */
+export type EntityKeys<T> = { pk: KeyFn<T>; sk: KeyFn<T> } & Partial<
+  Record<LsiName, KeyFn<T>>
+>;
+
+export type EntityProps<T extends object> = {
+  /** Entity name, used in error messages (e.g. "user"). */
+  name: string;
+  /** Validates (and morphs) items on `put`. */
+  schema: Schema<T>;
+  keys: EntityKeys<T>;
+  /** Table name override (optional, defaults to the client's table) */
+  tableName?: string;
+};
+
+/** Sort key condition for entity queries (the key attribute is implied by `index`). */
+export type EntitySkCond =
+  | { op: "=" | ">=" | ">" | "<=" | "<"; value: string }
+  | { op: "begins_with"; value: string }
+  | { op: "between"; value: [string, string] };
+
+export type EntityQueryProps<T extends object> = {
+  /** Attributes the `pk` function reads (e.g. `{ orgId }`). */
+  key: Partial<T>;
+  /** Range on one of the entity's LSIs instead of `sk` (optional) */
+  index?: LsiName;
+  /** Condition on `sk` (or on the `index` sort key) */
+  sk?: EntitySkCond;
+  filters?: ReadonlyArray<FilterClause<T>>;
+  limit?: number;
+  sort?: "asc" | "desc";
+  recursive?: boolean;
+  maxItems?: number;
+  strong?: boolean;
+  tableName?: string;
+};
+
+export type EntityUpdateProps<T extends object> = Omit<
+  UpdateProps<T>,
+  "key" | "returnValues"
+>;
+
+// ============================================================================
+// Iterate / Cursor Types
+// ============================================================================
+
+/**
+ * Props for `iterate`: a query or scan walked page by page. `recursive`,
+ * `first` and `raw` don't apply; `maxItems`/`maxPages` bound the walk.
+ */
+export type IterateProps<T extends object = Record<string, unknown>> =
+  DistributiveOmit<FindProps<T>, "recursive" | "first" | "raw"> & {
+    /** Yield whole pages (`RawResponse<T>`) instead of single items */
+    pages?: boolean;
+    /** `find` flags; rejected here even when spread from a `find` call's props */
+    first?: never;
+    raw?: never;
+  };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+export type CursorOptions = {
+  /**
+   * HMAC-SHA256 secret (optional). When set, tokens are signed on encode and
+   * rejected on decode unless the signature matches.
+   */
+  secret?: string;
+};
+
+// ============================================================================
+// Table Schema & Migrations
+// ============================================================================
+
+/** Provisioned read/write capacity units */
+export type Throughput = { read: number; write: number };
+
+export type GsiDefinition = {
+  /** Partition key attribute */
+  pk: string;
+  /** Sort key attribute (optional) */
+  sk?: string;
+  /** Projected attributes: `"all"` (default), `"keys"`, or these attributes */
+  projection?: "all" | "keys" | string[];
+  /** Index capacity with provisioned billing (default: the table's) */
+  throughput?: Throughput;
+};
+
+export type EnsureTableProps = {
+  name: string;
+  /** Primary key attributes (default: `pk` / `sk`; `sk: null` for hash-only) */
+  keys?: { pk?: string; sk?: string | null };
+  /** Generic LSIs to create (`lsi1`...`lsi5`); only possible at creation */
+  lsis?: LsiName[];
+  /** GSIs by index name; missing ones are added to an existing table */
+  gsis?: Record<string, GsiDefinition>;
+  /** Key attribute types other than `S` (e.g. `{ score: "N" }`) */
+  attributeTypes?: Record<string, "S" | "N" | "B">;
+  /** TTL attribute (epoch seconds) */
+  ttl?: string;
+  /** On-demand (default) or provisioned capacity */
+  billing?: "onDemand" | Throughput;
+  /** Stream view type, or `false` to turn streams off (default: unchanged) */
+  streams?: "keys" | "newImage" | "oldImage" | "newAndOld" | false;
+  /** Point-in-time recovery (default: unchanged) */
+  pitr?: boolean;
+  /** Delay between status checks while waiting for ACTIVE (default: 5000ms) */
+  pollInterval?: number;
+  /** Whether to show progress logs */
+  log?: boolean;
+};
+
+export type EnsureTableResult = {
+  /** Whether the table was created by this call */
+  created: boolean;
+  /** What was changed, e.g. `["gsi:byEmail", "ttl", "pitr"]` */
+  changes: string[];
+  /** Indexes on the table that the definition doesn't declare (left as is) */
+  undeclaredIndexes: string[];
+};
+
+export type Migration = {
+  /** Positive integer; migrations run once each, in ascending order */
+  version: number;
+  name: string;
+  /** Custom step, run before `backfill` */
+  up?: (ddb: Client) => Promise<void>;
+  /**
+   * Rewrite existing items: every item (matching `filters`) is passed to
+   * `transform`, and the ones it returns are written back.
+   */
+  backfill?: {
+    filters?: ReadonlyArray<FilterClause<Record<string, unknown>>>;
+    /** The item to store instead, or `undefined` to leave it untouched */
+    transform: (
+      item: Record<string, unknown>
+    ) =>
+      | Record<string, unknown>
+      | undefined
+      | Promise<Record<string, unknown> | undefined>;
+    /** Parallel scan segments (default: 1) */
+    segments?: number;
+  };
+};
+
+export type MigrateProps = {
+  migrations: Migration[];
+  tableName?: string;
+  /** Stop after this version (default: the latest) */
+  to?: number;
+  /** Whether to show progress logs */
+  log?: boolean;
+};
+
+export type MigrateResult = {
+  /** Migrations run by this call, with the number of items backfilled */
+  applied: { version: number; name: string; backfilled: number }[];
+  /** Highest applied version afterwards (0 when none) */
+  version: number;
+};
+
+// ============================================================================
+// Memory Emulator Types
+// ============================================================================
+
+/** Key attributes of a table or index in the memory emulator */
+export type MemoryKeySchema = {
+  /** Partition key attribute (default: `"pk"`, or the table's for indexes) */
+  pk?: string;
+  /** Sort key attribute (default: `"sk"`; `null` for a hash-only key) */
+  sk?: string | null;
+};
+
+export type MemoryTable = MemoryKeySchema & {
+  /**
+   * Secondary indexes by name. Indexes sharing the table's `pk` behave as
+   * LSIs, others as GSIs. Default: the generic `lsi1`...`lsi5` literals.
+   */
+  indexes?: Record<string, MemoryKeySchema>;
+  /** Seed items */
+  items?: Record<string, unknown>[];
+};
+
+export type MemoryProps = {
+  /** Tables by name (more can be added with `CreateTableCommand`) */
+  tables: Record<string, MemoryTable>;
+  /** Default table (default: the only table, when there's one) */
+  tableName?: string;
+  /**
+   * Items a single `BatchWriteCommand` processes before returning the rest
+   * as `UnprocessedItems`, to exercise retry paths (default: all)
+   */
+  batchWriteLimit?: number;
+};
@@ -0,0 +1,427 @@
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { type } from "arktype";
+import type {
+  AttributeValue as StreamAttributeValue,
+  DynamoDBRecord,
+  SQSRecord,
+} from "aws-lambda";
+import { describe, expect, it, vi } from "vitest";
+import * as Lambda from "./domain";
+import { response } from "./fns";
+import type { ApigwEvent } from "./types";
+
+const image = (item: Record<string, unknown>) =>
+  marshall(item) as Record<string, StreamAttributeValue>;
+
+const streamRecord = (
+  eventName: "INSERT" | "MODIFY" | "REMOVE",
+  seq: string,
+  item: { old?: Record<string, unknown>; new?: Record<string, unknown> }
+): DynamoDBRecord => {
+  const keySource = (item.new ?? item.old)!;
+  return {
+    eventID: `event-${seq}`,
+    eventName,
+    dynamodb: {
+      SequenceNumber: seq,
+      Keys: image({ pk: keySource.pk, sk: keySource.sk }),
+      ...(item.new && { NewImage: image(item.new) }),
+      ...(item.old && { OldImage: image(item.old) }),
+    },
+  };
+};
+
+describe("server/aws/lambda ddb stream handler", () => {
+  it("decodes images, diffs them and filters by key prefix", async () => {
+    const seen: unknown[] = [];
+    const handler = Lambda.createDdbStreamHandler<{ pk: string; sk: string; email?: string; tags?: Set<string> }>(
+      ({ type, keys, newItem, oldItem, changedKeys }) => {
+        seen.push({ type, keys, newItem, oldItem, changedKeys });
+      },
+      { prefix: { sk: "user#" } }
+    );
+    const user = { pk: "org#1", sk: "user#1", email: "a@b.co", tags: new Set(["x"]) };
+
+    const result = await handler({
+      Records: [
+        streamRecord("INSERT", "1", { new: user }),
+        streamRecord("MODIFY", "2", {
+          old: user,
+          new: { ...user, email: "c@d.co", tags: new Set(["x"]) },
+        }),
+        streamRecord("REMOVE", "3", { old: { pk: "org#1", sk: "org" } }),
+      ],
+    });
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(seen).toEqual([
+      {
+        type: "insert",
+        keys: { pk: "org#1", sk: "user#1" },
+        newItem: user,
+        oldItem: undefined,
+        changedKeys: ["pk", "sk", "email", "tags"],
+      },
+      {
+        type: "modify",
+        keys: { pk: "org#1", sk: "user#1" },
+        newItem: { ...user, email: "c@d.co" },
+        oldItem: user,
+        changedKeys: ["email"],
+      },
+    ]);
+  });
+
+  it("reports the first failing record and stops there", async () => {
+    const fn = vi.fn(({ keys }: { keys: Record<string, unknown> }) => {
+      if (keys.sk === "b") throw new Error("boom");
+    });
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const handler = Lambda.createDdbStreamHandler(fn);
+
+    const result = await handler({
+      Records: ["a", "b", "c"].map((sk, i) =>
+        streamRecord("INSERT", `${i + 1}`, { new: { pk: "p", sk } })
+      ),
+    });
+    log.mockRestore();
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: "2" }] });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports records that fail to decode, and never an empty identifier", async () => {
+    const fn = vi.fn();
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const handler = Lambda.createDdbStreamHandler(fn);
+    const malformed = streamRecord("INSERT", "2", { new: { pk: "p", sk: "b" } });
+    malformed.dynamodb!.NewImage = { broken: {} as StreamAttributeValue };
+
+    const result = await handler({
+      Records: [streamRecord("INSERT", "1", { new: { pk: "p", sk: "a" } }), malformed],
+    });
+    delete malformed.dynamodb!.SequenceNumber;
+    const unreported = handler({ Records: [malformed] });
+    await expect(unreported).rejects.toThrow("has no SequenceNumber");
+    log.mockRestore();
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: "2" }] });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+const httpEvent = (
+  method: string,
+  rawPath: string,
+  extra: Partial<ApigwEvent> = {}
+): ApigwEvent =>
+  ({
+    rawPath,
+    headers: {},
+    requestContext: { http: { method } },
+    ...extra,
+  }) as unknown as ApigwEvent;
+
+describe("server/aws/lambda router", () => {
+  const router = Lambda.createRouter({ basePath: "/prod" })
+    .get("/users/me", () => response({ id: "me" }))
+    .get("/users/:id", ({ params, query }) => response({ id: params.id, query }))
+    .post(
+      "/users/:id/tags",
+      { body: type({ tag: "string" }) },
+      ({ params, body }) => response({ id: params.id, tag: body.tag }, { status: 201 })
+    );
+
+  it("dispatches by method and path with params, query and validated bodies", async () => {
+    expect(await router.handler(httpEvent("GET", "/prod/users/me"))).toMatchObject({
+      body: JSON.stringify({ id: "me" }),
+    });
+    expect(
+      await router.handler(
+        httpEvent("GET", "/prod/users/a%20b/", { queryStringParameters: { q: "x" } })
+      )
+    ).toMatchObject({ body: JSON.stringify({ id: "a b", query: { q: "x" } }) });
+
+    const created = await router.handler(
+      httpEvent("POST", "/prod/users/1/tags", {
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ tag: "vip" }),
+      })
+    );
+    expect(created).toMatchObject({ statusCode: 201, body: JSON.stringify({ id: "1", tag: "vip" }) });
+  });
+
+  it("answers 400, 404, 405 and OPTIONS through the shared error mapping", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const invalid = await router.handler(
+      httpEvent("POST", "/prod/users/1/tags", { body: JSON.stringify({ tag: 1 }) })
+    );
+    const missing = await router.handler(httpEvent("GET", "/prod/nope"));
+    const malformed = await router.handler(httpEvent("GET", "/prod/users/%E0"));
+    const outsideBase = await router.handler(httpEvent("GET", "/other/users/1"));
+    const wrongMethod = await router.handler(httpEvent("DELETE", "/prod/users/1"));
+    const options = await router.handler(httpEvent("OPTIONS", "/prod/users/1/tags"));
+    log.mockRestore();
+
+    expect(invalid).toMatchObject({ statusCode: 400 });
+    expect(missing).toMatchObject({ statusCode: 404, body: JSON.stringify({ message: "Not Found" }) });
+    expect(malformed).toMatchObject({ statusCode: 404 });
+    expect(outsideBase).toMatchObject({ statusCode: 404 });
+    expect(wrongMethod).toMatchObject({
+      statusCode: 405,
+      headers: { Allow: "GET, HEAD, OPTIONS" },
+    });
+    expect(options).toMatchObject({ statusCode: 204, headers: { Allow: "POST, OPTIONS" } });
+  });
+});
+
+describe("server/aws/lambda rest handler schemas", () => {
+  const handler = Lambda.createRestHandler(
+    {
+      body: type({ name: "string", "age?": "string.numeric.parse" }),
+      query: type({ dryRun: "'true' | 'false'" }),
+      params: type({ orgId: "string" }),
+    },
+    ({ body, query, params }) => response({ ...body, dryRun: query.dryRun, orgId: params.orgId })
+  );
+
+  it("decodes base64 form bodies and hands over validated inputs", async () => {
+    const result = await handler(
+      httpEvent("POST", "/orgs/9/users", {
+        headers: { "content-type": "application/x-www-form-urlencoded" },
+        body: Buffer.from("name=Ann&age=31").toString("base64"),
+        isBase64Encoded: true,
+        queryStringParameters: { dryRun: "true" },
+        pathParameters: { orgId: "9" },
+      })
+    );
+
+    expect(result).toMatchObject({
+      statusCode: 200,
+      body: JSON.stringify({ name: "Ann", age: 31, dryRun: "true", orgId: "9" }),
+    });
+  });
+
+  it("rejects malformed JSON and schema mismatches with a 400", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const event = {
+      headers: { "content-type": "application/json" },
+      queryStringParameters: { dryRun: "true" },
+      pathParameters: { orgId: "9" },
+    };
+
+    const malformed = await handler(httpEvent("POST", "/", { ...event, body: "{oops" }));
+    const mismatch = await handler(
+      httpEvent("POST", "/", { ...event, body: JSON.stringify({ name: 5 }) })
+    );
+    log.mockRestore();
+
+    expect(malformed).toMatchObject({
+      statusCode: 400,
+      body: JSON.stringify({ message: "Invalid JSON body" }),
+    });
+    expect(mismatch).toMatchObject({ statusCode: 400 });
+    expect(JSON.parse((mismatch as { body: string }).body).message).toBe("validation error");
+  });
+});
+
+describe("server/aws/lambda middleware", () => {
+  type User = { id: string };
+  const auth: Lambda.Middleware<Record<never, never>, { user: User }> = async (ctx, next) => {
+    const token = ctx.event.headers.authorization;
+    if (!token) return response({ message: "Unauthorized" }, { status: 401 });
+    return next({ user: { id: token } });
+  };
+
+  it("short-circuits, enriches the typed context and changes responses", async () => {
+    const order: string[] = [];
+    const handler = Lambda.createRestHandler
+      .use(async (_ctx, next) => {
+        order.push("outer");
+        const result = await next();
+        return typeof result === "string" ? result : { ...result, statusCode: 202 };
+      })
+      .use(auth)
+      .use(async ({ user }, next) => {
+        order.push(`inner:${user.id}`);
+        return next();
+      })((_event, { user }) => response({ id: user.id }));
+
+    expect(await handler(httpEvent("GET", "/me"))).toMatchObject({ statusCode: 202 });
+    expect(order).toEqual(["outer"]);
+
+    const authed = await handler(httpEvent("GET", "/me", { headers: { authorization: "u1" } }));
+    expect(authed).toMatchObject({ statusCode: 202, body: JSON.stringify({ id: "u1" }) });
+    expect(order).toEqual(["outer", "outer", "inner:u1"]);
+  });
+
+  it("hands handler errors to middleware as error responses", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const statuses: number[] = [];
+    const handler = Lambda.createRestHandler
+      .use(Lambda.accessLog({ log: (entry) => statuses.push(entry.status) }))
+      .use(auth)({ body: type({ n: "number" }) }, ({ body, ctx }) =>
+      response({ n: body.n, by: ctx.user.id })
+    );
+
+    const result = await handler(
+      httpEvent("POST", "/", { headers: { authorization: "u1" }, body: "{}" })
+    );
+    log.mockRestore();
+
+    expect(result).toMatchObject({ statusCode: 400 });
+    expect(statuses).toEqual([400]);
+  });
+
+  it("ships CORS, correlation ID and access log middleware", async () => {
+    const entries: Lambda.AccessLogEntry[] = [];
+    const fn = vi.fn(() => response({ ok: true }));
+    const handler = Lambda.createRestHandler
+      .use(Lambda.cors({ origins: ["https://app.example.com"], maxAge: 600 }))
+      .use(Lambda.correlationId())
+      .use(Lambda.accessLog({ log: (entry) => entries.push(entry) }))(fn);
+
+    const preflight = await handler(
+      httpEvent("OPTIONS", "/users", { headers: { origin: "https://app.example.com" } })
+    );
+    expect(preflight).toMatchObject({
+      statusCode: 204,
+      headers: {
+        "access-control-allow-origin": "https://app.example.com",
+        "access-control-max-age": "600",
+      },
+    });
+    expect(fn).not.toHaveBeenCalled();
+
+    const result = await handler(
+      httpEvent("GET", "/users", {
+        headers: { "x-correlation-id": "c-1", origin: "https://evil.example" },
+      })
+    );
+    expect(result).toMatchObject({
+      statusCode: 200,
+      headers: { "x-correlation-id": "c-1", Vary: "Origin" },
+    });
+    expect(result).not.toHaveProperty(["headers", "access-control-allow-origin"]);
+    expect(entries).toEqual([
+      expect.objectContaining({ method: "GET", path: "/users", status: 200, correlationId: "c-1" }),
+    ]);
+    expect(entries[0]!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("runs router middleware around routes and 404s", async () => {
+    const entries: Lambda.AccessLogEntry[] = [];
+    const router = Lambda.createRouter({
+      middleware: [Lambda.accessLog({ log: (entry) => entries.push(entry) })],
+    }).get("/ping", () => response("pong"));
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    await router.handler(httpEvent("GET", "/ping"));
+    await router.handler(httpEvent("GET", "/nope"));
+    log.mockRestore();
+
+    expect(entries.map((entry) => entry.status)).toEqual([200, 404]);
+  });
+});
+
+const sqsRecord = (
+  messageId: string,
+  body: unknown,
+  groupId?: string
+): SQSRecord =>
+  ({
+    messageId,
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    attributes: groupId ? { MessageGroupId: groupId } : {},
+    eventSourceARN: `arn:aws:sqs:eu-west-1:1:jobs${groupId ? ".fifo" : ""}`,
+  }) as SQSRecord;
+
+describe("server/aws/lambda sqs record handler", () => {
+  it("decodes and validates bodies, reporting only failed records", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const seen: number[] = [];
+    const handler = Lambda.createSqsRecordHandler(
+      { schema: type({ n: "number" }), concurrency: 2 },
+      ({ n }) => {
+        if (n === 3) throw new Error("boom");
+        seen.push(n);
+      }
+    );
+
+    const result = await handler({
+      Records: [
+        sqsRecord("1", { n: 1 }),
+        sqsRecord("2", "{oops"),
+        sqsRecord("3", { n: 3 }),
+        sqsRecord("4", { n: "4" }),
+        sqsRecord("5", { n: 5 }),
+      ],
+    });
+    log.mockRestore();
+
+    expect(seen.sort()).toEqual([1, 5]);
+    expect(result.batchItemFailures.map((f) => f.itemIdentifier).sort()).toEqual(["2", "3", "4"]);
+  });
+
+  it("keeps FIFO group order and fails the rest of a group after an error", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const seen: string[] = [];
+    const handler = Lambda.createSqsRecordHandler<{ step: number }>(
+      { concurrency: 10 },
+      async ({ step }, record) => {
+        await new Promise((resolve) => setTimeout(resolve, 3 - step));
+        if (record.messageId === "b2") throw new Error("boom");
+        seen.push(record.messageId);
+      }
+    );
+
+    const result = await handler({
+      Records: [
+        sqsRecord("a1", { step: 1 }, "a"),
+        sqsRecord("b1", { step: 1 }, "b"),
+        sqsRecord("a2", { step: 2 }, "a"),
+        sqsRecord("b2", { step: 2 }, "b"),
+        sqsRecord("b3", { step: 3 }, "b"),
+      ],
+    });
+    log.mockRestore();
+
+    expect(seen.filter((id) => id.startsWith("a"))).toEqual(["a1", "a2"]);
+    expect(seen).not.toContain("b3");
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: "b2" },
+      { itemIdentifier: "b3" },
+    ]);
+  });
+
+  it("unwraps SNS envelopes around S3 notifications and fails other bodies", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const fn = vi.fn();
+    const handler = Lambda.createSqsRecordHandler({ s3: true, sns: true }, fn);
+    const notification = {
+      Records: [
+        {
+          eventName: "ObjectCreated:Put",
+          eventTime: "2024-01-01T00:00:00.000Z",
+          s3: { bucket: { name: "uploads" }, object: { key: "a+b%2Fc.png", size: 3 } },
+        },
+      ],
+    };
+
+    const result = await handler({
+      Records: [
+        sqsRecord("1", { Type: "Notification", Message: JSON.stringify(notification) }),
+        sqsRecord("2", { Type: "Notification", Message: JSON.stringify({ Event: "s3:TestEvent" }) }),
+        sqsRecord("3", { Type: "Notification", Message: "{oops" }),
+      ],
+    });
+    log.mockRestore();
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: "3" }]);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn.mock.calls[0]![0]).toEqual([
+      expect.objectContaining({ bucket: "uploads", key: "a b/c.png", size: 3 }),
+    ]);
+  });
+});
@@ -1,15 +1,70 @@
+import { randomUUID } from "node:crypto";
+import * as S3 from "../s3";
+import * as _l from "./literals";
 import * as _t from "./types";
 import * as _f from "./fns";
 
+const pipeline = <C extends object>(
+  middleware: _t.Middleware<never, object>[]
+): _t.RestPipeline<C> => {
+  const create = (
+    ...args:
+      | [(event: _t.ApigwEvent, ctx: _t.HandlerContext) => unknown]
+      | [
+          _t.RouteSchemas,
+          (
+            request: ReturnType<typeof _f.parseRequest> & {
+              ctx: _t.HandlerContext;
+            }
+          ) => unknown,
+        ]
+  ): _t.RestHandler => {
+    return (event) =>
+      _f.runMiddleware(middleware, { event }, async (ctx) =>
+        args.length === 1
+          ? ((await args[0](event, ctx)) as _t.HandlerResult)
+          : ((await args[1]({
+              ..._f.parseRequest(event, args[0], event.pathParameters ?? {}),
+              ctx,
+            })) as _t.HandlerResult)
+      );
+  };
+  return Object.assign(create, {
+    use: (mw: _t.Middleware<never, object>) => pipeline([...middleware, mw]),
+  }) as unknown as _t.RestPipeline<C>;
+};
+
 /**
  * Create a REST handler for an AWS Lambda function.
  * This handler will catch all errors and automatically
  * handle things like HTTP errors and Arktype validation errors,
- * @param fn
- * @returns
+ *
+ * Pass schemas first to get the request parsed instead of the raw event:
+ * the body is base64-decoded when needed and parsed as JSON or form data,
+ * then `body`, `query` and path `params` are validated (400 on failure) and
+ * handed over typed.
+ *
+ * `.use(mw)` returns a handler factory with middleware around the handler;
+ * what the middleware adds to the context is typed in the handler's `ctx`.
+ *
+ * @example
+ * ```ts
+ * export const handler = Lambda.createRestHandler(
+ *   { body: type({ email: "string.email" }), params: type({ orgId: "string" }) },
+ *   async ({ body, params }) => response(await invite(params.orgId, body.email))
+ * );
+ *
+ * const auth: Lambda.Middleware<{}, { user: User }> = async (ctx, next) =>
+ *   next({ user: await verify(ctx.event.headers.authorization) });
+ * const authed = Lambda.createRestHandler
+ *   .use(Lambda.cors())
+ *   .use(Lambda.correlationId())
+ *   .use(Lambda.accessLog())
+ *   .use(auth);
+ * export const me = authed(async (_event, { user }) => response(user));
+ * ```
  */
-export const createRestHandler: _t.RestHandlerFactory =
-  _f.createHandlerFactory<_t.ApigwEvent>();
+export const createRestHandler = pipeline<Record<never, never>>([]);
 
 /**
  * Same as rest handler but just receives a websocket event.
@@ -19,6 +74,201 @@ export const createRestHandler: _t.RestHandlerFactory =
 export const createWebsocketHandler: _t.WebsocketHandlerFactory =
   _f.createHandlerFactory<_t.WebsocketEvent>();
 
+/**
+ * Create a router serving many routes from one Lambda behind an API Gateway
+ * v2 `$default` route, instead of a `switch (event.routeKey)`.
+ *
+ * Routes match on method and path (`:name` segments become typed `params`;
+ * the first registered match wins). The handler receives the parsed `query`
+ * and `body`, each validated by the route's arktype schema when one is given.
+ *
+ * Unknown paths get a 404, known paths with another method a 405 (and
+ * `OPTIONS` a 204) with an `Allow` header. Errors map to responses the same
+ * way as `createRestHandler`: `HttpError`s keep their status, schema failures
+ * become 400s.
+ *
+ * @example
+ * ```ts
+ * const router = Lambda.createRouter()
+ *   .get("/users/:id", async ({ params }) => response(await getUser(params.id)))
+ *   .post(
+ *     "/users",
+ *     { body: type({ email: "string.email" }) },
+ *     async ({ body }) => response(await createUser(body.email), { status: 201 })
+ *   );
+ *
+ * export const handler = router.handler;
+ * ```
+ */
+export const createRouter = (options: _t.RouterOptions = {}): _t.Router => {
+  type Route = {
+    method: _t.RouteMethod;
+    pattern: string[];
+    schemas: _t.RouteSchemas;
+    fn: (request: {
+      event: _t.ApigwEvent;
+      params: unknown;
+      query: unknown;
+      body: unknown;
+    }) => Promise<_t.ApigwResult> | _t.ApigwResult;
+  };
+  const routes: Route[] = [];
+  const basePath = _f.splitPath(options.basePath ?? "");
+
+  const dispatch = async (event: _t.ApigwEvent) => {
+    const method = event.requestContext.http.method.toUpperCase();
+    const path = _f.splitPath(event.rawPath);
+    // Outside basePath nothing matches
+    const segments = basePath.every((part, i) => path[i] === part)
+      ? path.slice(basePath.length)
+      : undefined;
+
+    const matches = routes.flatMap((route) => {
+      const params = segments && _f.matchPath(route.pattern, segments);
+      return params ? [{ route, params }] : [];
+    });
+    if (matches.length === 0) {
+      throw new _l.HttpError({
+        statusCode: 404,
+        display: "Not Found",
+        log: `[router] no route for ${method} ${event.rawPath}`,
+      });
+    }
+
+    const match = matches.find(
+      ({ route }) =>
+        route.method === method || (method === "HEAD" && route.method === "GET")
+    );
+    if (!match) {
+      const methods = new Set(matches.map(({ route }) => route.method));
+      const allow = [
+        ...methods,
+        ...(methods.has("GET") ? ["HEAD"] : []),
+        "OPTIONS",
+      ].join(", ");
+      if (method === "OPTIONS") {
+        return _f.response(undefined, {
+          methods: allow,
+          additionalHeaders: { Allow: allow },
+        });
+      }
+      throw new _l.HttpError({
+        statusCode: 405,
+        display: "Method Not Allowed",
+        log: `[router] ${method} not allowed for ${event.rawPath}`,
+        headers: { Allow: allow },
+      });
+    }
+
+    const { route, params } = match;
+    return route.fn(_f.parseRequest(event, route.schemas, params));
+  };
+
+  const add =
+    (method: _t.RouteMethod) =>
+    (path: string, ...args: unknown[]): _t.Router => {
+      const [schemas, fn] = (args.length === 1 ? [{}, ...args] : args) as [
+        _t.RouteSchemas,
+        Route["fn"],
+      ];
+      routes.push({ method, pattern: _f.splitPath(path), schemas, fn });
+      return router;
+    };
+
+  const router: _t.Router = {
+    get: add("GET"),
+    post: add("POST"),
+    put: add("PUT"),
+    patch: add("PATCH"),
+    delete: add("DELETE"),
+    handler: (options.middleware ?? []).reduce<_t.RestPipeline<object>>(
+      (handler, mw) => handler.use(mw),
+      createRestHandler
+    )(dispatch),
+  };
+  return router;
+};
+
+/**
+ * Middleware applying a CORS policy: preflight `OPTIONS` requests get a 204
+ * without running the handler, other responses get their CORS headers
+ * replaced with the policy's for the request `Origin`.
+ *
+ * @example
+ * ```ts
+ * createRestHandler.use(
+ *   Lambda.cors({ origins: ["https://app.example.com"], credentials: true, maxAge: 600 })
+ * )
+ * ```
+ */
+export const cors =
+  (policy: _t.CorsPolicy = {}): _t.Middleware =>
+  async (ctx, next) => {
+    const origin = ctx.event.headers?.origin;
+    if (ctx.event.requestContext.http.method.toUpperCase() !== "OPTIONS") {
+      return _f.withCors(await next(), policy, origin);
+    }
+    return _f.response(undefined, {
+      status: 204,
+      cors: policy,
+      requestOrigin: origin,
+      additionalHeaders: _f.corsHeaders(policy, origin, true),
+    });
+  };
+
+/**
+ * Middleware giving each request a correlation ID: the incoming header's
+ * value, else API Gateway's request ID. It's added to the context as
+ * `correlationId` and echoed in the response header.
+ */
+export const correlationId =
+  (
+    opts: {
+      /** Header to read and echo (default: `x-correlation-id`) */
+      header?: string;
+    } = {}
+  ): _t.Middleware<Record<never, never>, { correlationId: string }> =>
+  async (ctx, next) => {
+    const header = (opts.header ?? "x-correlation-id").toLowerCase();
+    const id =
+      ctx.event.headers?.[header] ??
+      ctx.event.requestContext.requestId ??
+      randomUUID();
+    const result = await next({ correlationId: id });
+    return _f.withHeaders(result, { [header]: id });
+  };
+
+/**
+ * Middleware logging one structured line per request (method, path, status,
+ * duration, IDs) once the response is ready. Put it after `correlationId`
+ * to include the correlation ID.
+ */
+export const accessLog =
+  (
+    opts: {
+      /** Where entries go (default: `console.log` as JSON) */
+      log?: (entry: _t.AccessLogEntry) => void;
+    } = {}
+  ): _t.Middleware<{ correlationId?: string }> =>
+  async (ctx, next) => {
+    const started = Date.now();
+    const result = await next();
+    const { http, requestId } = ctx.event.requestContext;
+    const entry: _t.AccessLogEntry = {
+      method: http.method,
+      path: ctx.event.rawPath,
+      status: _f.statusOf(result),
+      durationMs: Date.now() - started,
+      requestId,
+      correlationId: ctx.correlationId,
+      sourceIp: http.sourceIp,
+      userAgent: http.userAgent,
+    };
+    if (opts.log) opts.log(entry);
+    else console.log(JSON.stringify({ type: "access", ...entry }));
+    return result;
+  };
+
 /**
  * Creates a batch failures tracker for SQS handlers.
  * Provides a simple `add(id)` method instead of pushing objects.
@@ -89,3 +339,159 @@ export const createSqsHandler: _t.SqsHandlerFactory =
 
     return result;
   };
+
+/**
+ * Creates an SQS handler that calls `fn` once per record with its decoded
+ * body and reports the records that failed (threw, or didn't decode or
+ * validate) as partial batch failures, so only those are retried (the event
+ * source mapping needs `ReportBatchItemFailures`).
+ *
+ * Bodies are parsed as JSON (after unwrapping SNS envelopes with `sns`) and
+ * checked against `schema`. With `s3`, `fn` gets the message's decoded
+ * `S3.recordsFromSqs` records instead; a body without any fails, except
+ * S3's `s3:TestEvent`, which is skipped.
+ *
+ * Up to `concurrency` records run at a time; on FIFO queues records of the
+ * same `MessageGroupId` still run in order, and the ones after a failure
+ * fail without running.
+ *
+ * @example
+ * ```ts
+ * export const handler = Lambda.createSqsRecordHandler(
+ *   { schema: type({ userId: "string" }), concurrency: 5 },
+ *   async ({ userId }) => sendWelcome(userId)
+ * );
+ *
+ * export const onUpload = Lambda.createSqsRecordHandler(
+ *   { s3: true, sns: true },
+ *   async (objects) => Promise.all(objects.map(({ key }) => thumbnail(key)))
+ * );
+ * ```
+ */
+export const createSqsRecordHandler: _t.SqsRecordHandlerFactory =
+  (
+    options: _t.SqsRecordHandlerOptions & { s3?: boolean },
+    fn: _t.SqsRecordHandlerFn<never>
+  ) =>
+  async (event: _t.SqsEvent): Promise<_t.SqsBatchResponse> => {
+    const failures = withBatchFailures();
+    const fifo =
+      options.fifo ??
+      Boolean(event.Records[0]?.eventSourceARN.endsWith(".fifo"));
+
+    // FIFO: one group per MessageGroupId, otherwise every record on its own
+    const groups = new Map<string, _t.SqsRecord[]>();
+    for (const record of event.Records) {
+      const id = (fifo && record.attributes.MessageGroupId) || record.messageId;
+      groups.set(id, [...(groups.get(id) ?? []), record]);
+    }
+
+    /** The body `fn` gets, or `undefined` for an S3 test event (skipped) */
+    const decode = (record: _t.SqsRecord) => {
+      let body = record.body;
+      if (options.sns) {
+        body = (JSON.parse(body) as { Message: string }).Message;
+      }
+      if (!options.s3) return _f.validate(options.schema, JSON.parse(body));
+      const records = S3.recordsFromSqs(body);
+      if (records) return records;
+      const { Event } = JSON.parse(body) as { Event?: string };
+      if (Event === "s3:TestEvent") return undefined;
+      throw new Error(`[sqs] message ${record.messageId} has no S3 records`);
+    };
+
+    const handleGroup = async (records: _t.SqsRecord[]) => {
+      for (const [index, record] of records.entries()) {
+        try {
+          const body = decode(record);
+          if (body !== undefined || !options.s3) {
+            await fn(body as never, record);
+          }
+        } catch (err) {
+          console.log(`[error] [sqs]`, { err, messageId: record.messageId });
+          // Without FIFO every group is a single record
+          for (const failed of records.slice(index)) {
+            failures.add(failed.messageId);
+          }
+          return;
+        }
+      }
+    };
+
+    // `concurrency` workers taking groups off a shared queue
+    const queue = [...groups.values()];
+    const worker = async () => {
+      for (let group = queue.shift(); group; group = queue.shift()) {
+        await handleGroup(group);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: options.concurrency ?? 1 }, () => worker())
+    );
+
+    return { batchItemFailures: failures.items };
+  };
+
+/**
+ * Creates a DynamoDB stream handler that decodes each record (unmarshalled
+ * `newItem` / `oldItem`, `keys` and `changedKeys`) and calls `fn` with it,
+ * one record at a time in stream order.
+ *
+ * When `fn` throws, the handler stops and reports that record as a partial
+ * batch failure, so Lambda retries from it (the function's event source
+ * mapping needs `ReportBatchItemFailures`). Records after it aren't
+ * processed, since they would be delivered again anyway.
+ *
+ * @example
+ * ```ts
+ * export const handler = Lambda.createDdbStreamHandler<User>(
+ *   async ({ type, newItem, changedKeys }) => {
+ *     if (type === "modify" && changedKeys.includes("email")) {
+ *       await sendVerification(newItem!.email);
+ *     }
+ *   },
+ *   { prefix: { sk: "user#" } }
+ * );
+ * ```
+ */
+export const createDdbStreamHandler =
+  <T extends object = Record<string, unknown>>(
+    fn: _t.DdbStreamHandlerFn<T>,
+    options: _t.DdbStreamHandlerOptions = {}
+  ) =>
+  async (event: _t.DdbStreamEvent): Promise<_t.DdbBatchResponse> => {
+    const failures = withBatchFailures();
+    const prefixes = Object.entries(options.prefix ?? {});
+
+    for (const raw of event.Records) {
+      try {
+        const record = _f.decodeStreamRecord<T>(raw);
+        if (options.types && !options.types.includes(record.type)) continue;
+        const matches = prefixes.every(([attribute, prefix]) => {
+          const value = record.keys[attribute];
+          return typeof value === "string" && value.startsWith(prefix);
+        });
+        if (!matches) continue;
+
+        await fn(record);
+      } catch (err) {
+        console.log(`[error] [ddbStream]`, {
+          err,
+          eventID: raw.eventID,
+          keys: raw.dynamodb?.Keys,
+        });
+        const sequenceNumber = raw.dynamodb?.SequenceNumber;
+        // An empty identifier would fail the whole batch without saying so
+        if (!sequenceNumber) {
+          throw new Error(
+            `[ddbStream] record ${raw.eventID} failed and has no SequenceNumber to report`,
+            { cause: err }
+          );
+        }
+        failures.add(sequenceNumber);
+        break;
+      }
+    }
+
+    return { batchItemFailures: failures.items };
+  };
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { corsHeaders, response, withCors } from "./fns";
+
+describe("server/aws/lambda response", () => {
+  it("emits cookies, any status and string CORS headers", () => {
+    const result = response(
+      { message: "slow down" },
+      {
+        status: 429,
+        cookies: ["session=abc; HttpOnly"],
+        allowedHeaders: "Authorization",
+        allowCredentials: true,
+      }
+    );
+
+    expect(result).toMatchObject({
+      statusCode: 429,
+      cookies: ["session=abc; HttpOnly"],
+      headers: {
+        "access-control-allow-headers": "Authorization",
+        "access-control-allow-credentials": "true",
+      },
+    });
+    expect(response(null).headers).not.toHaveProperty("access-control-allow-credentials");
+    expect(response(null)).not.toHaveProperty("cookies");
+  });
+
+  it("echoes origins a CORS policy allows, with Vary: Origin", () => {
+    const policy = {
+      origins: (origin: string) => origin.endsWith(".example.com"),
+      credentials: true,
+      exposedHeaders: ["x-correlation-id"],
+    };
+
+    expect(
+      response("ok", { cors: policy, requestOrigin: "https://app.example.com" }).headers
+    ).toEqual({
+      "Content-Type": "application/json",
+      Vary: "Origin",
+      "access-control-allow-origin": "https://app.example.com",
+      "access-control-allow-credentials": "true",
+      "access-control-expose-headers": "x-correlation-id",
+    });
+    expect(corsHeaders(policy, "https://evil.test")).not.toHaveProperty(
+      "access-control-allow-origin"
+    );
+    expect(corsHeaders({}, "https://a.test")).toEqual({ "access-control-allow-origin": "*" });
+    expect(corsHeaders({ credentials: true }, "https://a.test")).toMatchObject({
+      "access-control-allow-origin": "https://a.test",
+    });
+    expect(
+      corsHeaders({ methods: ["GET"], allowedHeaders: ["Authorization"], maxAge: 60 }, undefined, true)
+    ).toEqual({
+      "access-control-allow-origin": "*",
+      "access-control-allow-methods": "GET",
+      "access-control-allow-headers": "Authorization",
+      "access-control-max-age": "60",
+    });
+  });
+
+  it("replaces existing CORS headers and merges Vary", () => {
+    const result = withCors(
+      { statusCode: 200, body: "", headers: { vary: "Accept-Encoding", ...response(null).headers } },
+      { origins: ["https://a.test"] },
+      "https://a.test"
+    );
+
+    expect(result).toMatchObject({
+      headers: {
+        Vary: "Accept-Encoding, Origin",
+        "access-control-allow-origin": "https://a.test",
+      },
+    });
+    expect(result).not.toHaveProperty(["headers", "access-control-allow-methods"]);
+  });
+});
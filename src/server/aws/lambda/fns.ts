@@ -1,4 +1,8 @@
 import { ArkErrors } from "arktype";
+import type { AttributeValue } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import type { DynamoDBRecord } from "aws-lambda";
+import type { Schema } from "../../../shared/types";
 import * as _l from "./literals";
 import * as _t from "./types";
 
@@ -16,18 +20,70 @@ export const getStatusCode = (body: unknown, options?: _t.ResponseOptions): numb
   return options.status ?? 200;
 };
 
-export const getDefaultHeaders = (opts: _t.ResponseOptions = {}) => ({
+const DEFAULT_ALLOWED_HEADERS =
+  "Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Amz-User-Agent";
+const DEFAULT_METHODS = "OPTIONS,POST,GET,PUT,DELETE,PATCH";
+
+export const getDefaultHeaders = (
+  opts: _t.ResponseOptions = {}
+): _t.Response["headers"] => ({
   "Content-Type": opts.contentType ?? "application/json",
-  "access-control-allow-origin": opts.origin ?? "*",
-  "access-control-allow-headers":
-    // opts.allowedHeaders ??
-    "Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Amz-User-Agent",
-  "access-control-allow-methods":
-    opts.methods ?? "OPTIONS,POST,GET,PUT,DELETE,PATCH",
-  "access-control-allow-credentials": opts.allowCredentials ?? false, // don't send cookie automatically
-  // opts.allowCredentials === true ? "true" : "false", // don't send cookie automatically
+  ...(opts.cors
+    ? corsHeaders(opts.cors, opts.requestOrigin)
+    : {
+        "access-control-allow-origin": opts.origin ?? "*",
+        "access-control-allow-headers":
+          opts.allowedHeaders ?? DEFAULT_ALLOWED_HEADERS,
+        "access-control-allow-methods": opts.methods ?? DEFAULT_METHODS,
+        // don't send cookies unless asked to
+        ...(opts.allowCredentials && {
+          "access-control-allow-credentials": "true",
+        }),
+      }),
 });
 
+/**
+ * CORS headers a policy gives a request from `requestOrigin`. A disallowed
+ * origin gets no `access-control-allow-origin`, so the browser blocks it.
+ * `preflight` adds the methods, headers and max-age an `OPTIONS` answer needs.
+ */
+export const corsHeaders = (
+  policy: _t.CorsPolicy,
+  requestOrigin: string | undefined,
+  preflight = false
+): Record<string, string> => {
+  const { origins = "*" } = policy;
+  const allowed =
+    origins === "*"
+      ? true
+      : requestOrigin !== undefined &&
+        (Array.isArray(origins)
+          ? origins.includes(requestOrigin)
+          : origins(requestOrigin));
+  // `*` can't be combined with credentials, so echo the origin then too
+  const wildcard = origins === "*" && !(policy.credentials && requestOrigin);
+  const headers: Record<string, string> = wildcard ? {} : { Vary: "Origin" };
+
+  if (allowed) {
+    headers["access-control-allow-origin"] = wildcard ? "*" : requestOrigin!;
+  }
+  if (policy.credentials) {
+    headers["access-control-allow-credentials"] = "true";
+  }
+  if (preflight) {
+    headers["access-control-allow-methods"] =
+      policy.methods?.join(",") ?? DEFAULT_METHODS;
+    headers["access-control-allow-headers"] =
+      policy.allowedHeaders?.join(",") ?? DEFAULT_ALLOWED_HEADERS;
+    if (policy.maxAge !== undefined) {
+      headers["access-control-max-age"] = String(policy.maxAge);
+    }
+  } else if (policy.exposedHeaders?.length) {
+    headers["access-control-expose-headers"] = policy.exposedHeaders.join(",");
+  }
+  return headers;
+};
+
 /**
  * This will take a string or object and return as a proper
  * response object including the status code, headers,
@@ -50,7 +106,13 @@ export const response = <T = unknown>(
       ? responseBody
       : JSON.stringify(responseBody);
   const isBase64Encoded = opts?.isBase64Encoded ?? false;
-  return { headers, statusCode, body, isBase64Encoded };
+  return {
+    headers,
+    statusCode,
+    body,
+    isBase64Encoded,
+    ...(opts?.cookies?.length && { cookies: opts.cookies }),
+  };
 };
 
 /**
@@ -65,22 +127,254 @@ export const createHandlerFactory =
     try {
       return await fn(event);
     } catch (err) {
-      console.log(`[error]`, { err });
+      return errorResponse(err);
+    }
+  };
 
-      if (err instanceof _l.HttpError) {
-        return response(
-          { message: err.display },
-          { status: err.statusCode ?? 500 }
-        );
-      } else if (err instanceof ArkErrors) {
-        return response(
-          { message: "validation error", errors: err.summary },
-          { status: 400 }
-        );
-      } else if (err instanceof Error) {
-        return response({ message: err.message }, { status: 500 });
-      } else {
-        return response(null, { status: 500 });
+/**
+ * Log a thrown error and turn it into a response: HTTP errors keep their
+ * status, Arktype validation errors are a 400, anything else a 500.
+ */
+export const errorResponse = (err: unknown): _t.Response => {
+  console.log(`[error]`, { err });
+
+  if (err instanceof _l.HttpError) {
+    return response(
+      { message: err.display },
+      {
+        status: err.statusCode ?? 500,
+        ...(err.headers && { additionalHeaders: err.headers }),
       }
+    );
+  } else if (err instanceof ArkErrors) {
+    return response(
+      { message: "validation error", errors: err.summary },
+      { status: 400 }
+    );
+  } else if (err instanceof Error) {
+    return response({ message: err.message }, { status: 500 });
+  } else {
+    return response(null, { status: 500 });
+  }
+};
+
+/**
+ * Run a handler middleware chain ending in `terminal` (the handler).
+ *
+ * Each `next(add)` continues with `add` merged into the context. Errors are
+ * caught at every link, so a middleware's `next` resolves to the error
+ * response rather than rejecting.
+ */
+export const runMiddleware = (
+  middleware: ReadonlyArray<_t.Middleware<never, object>>,
+  ctx: _t.HandlerContext,
+  terminal: (ctx: _t.HandlerContext) => Promise<_t.HandlerResult>
+): Promise<_t.HandlerResult> => {
+  const dispatch = async (
+    index: number,
+    current: _t.HandlerContext
+  ): Promise<_t.HandlerResult> => {
+    try {
+      const mw = middleware[index];
+      if (!mw) return await terminal(current);
+      return await mw(current as never, (add) =>
+        dispatch(index + 1, add ? { ...current, ...add } : current)
+      );
+    } catch (err) {
+      return errorResponse(err);
     }
   };
+  return dispatch(0, ctx);
+};
+
+/** Status code of a handler result (a bare string result is a 200) */
+export const statusOf = (result: _t.HandlerResult) =>
+  typeof result === "string" ? 200 : (result.statusCode ?? 200);
+
+/** Add headers to a handler result */
+export const withHeaders = (
+  result: _t.HandlerResult,
+  headers: Record<string, string>
+): _t.HandlerResult =>
+  typeof result === "string"
+    ? { statusCode: 200, body: result, headers }
+    : ({ ...result, headers: { ...result.headers, ...headers } } as _t.HandlerResult);
+
+/**
+ * Replace a handler result's CORS headers with what `policy` gives
+ * `requestOrigin`, e.g. the `*` defaults `response()` adds.
+ */
+export const withCors = (
+  result: _t.HandlerResult,
+  policy: _t.CorsPolicy,
+  requestOrigin: string | undefined
+): _t.HandlerResult => {
+  const { headers = {}, ...rest } =
+    typeof result === "string"
+      ? { statusCode: 200, body: result }
+      : (result as Exclude<_t.HandlerResult, string>);
+  const kept: Record<string, string> = {};
+  let vary: string | undefined;
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    if (lower === "vary") vary = String(value);
+    else if (!lower.startsWith("access-control-")) kept[name] = String(value);
+  }
+  const cors = corsHeaders(policy, requestOrigin);
+  const varyOn = [vary, cors.Vary].filter(Boolean).join(", ");
+  return {
+    ...rest,
+    headers: { ...kept, ...cors, ...(varyOn && { Vary: varyOn }) },
+  } as _t.HandlerResult;
+};
+
+const STREAM_TYPES = {
+  INSERT: "insert",
+  MODIFY: "modify",
+  REMOVE: "remove",
+} as const;
+
+/** Structural equality for unmarshalled attribute values */
+export const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a instanceof Set && b instanceof Set) {
+    return a.size === b.size && [...a].every((v) => b.has(v));
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isSameValue(v, b[i]));
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const aKeys = Object.keys(a);
+    const bRecord = b as Record<string, unknown>;
+    return (
+      aKeys.length === Object.keys(b).length &&
+      aKeys.every(
+        (key) =>
+          key in bRecord &&
+          isSameValue((a as Record<string, unknown>)[key], bRecord[key])
+      )
+    );
+  }
+  return false;
+};
+
+const unmarshallImage = (image: unknown) =>
+  image
+    ? unmarshall(image as Record<string, AttributeValue>)
+    : undefined;
+
+/**
+ * Decode a DynamoDB stream record: unmarshall its key and images and list
+ * the top-level attributes that changed.
+ */
+export const decodeStreamRecord = <T extends object>(
+  record: DynamoDBRecord
+): _t.DdbStreamRecord<T> => {
+  const type = STREAM_TYPES[record.eventName ?? "MODIFY"];
+  const newItem = unmarshallImage(record.dynamodb?.NewImage);
+  const oldItem = unmarshallImage(record.dynamodb?.OldImage);
+  const attributes = new Set([
+    ...Object.keys(newItem ?? {}),
+    ...Object.keys(oldItem ?? {}),
+  ]);
+  const changedKeys =
+    type === "modify" && !(newItem && oldItem)
+      ? []
+      : [...attributes].filter(
+          (key) => !isSameValue(newItem?.[key], oldItem?.[key])
+        );
+  return {
+    type,
+    keys: unmarshallImage(record.dynamodb?.Keys) ?? {},
+    newItem: newItem as T | undefined,
+    oldItem: oldItem as T | undefined,
+    changedKeys: changedKeys as (keyof T & string)[],
+    record,
+  };
+};
+
+// ============================================================================
+// Router
+// ============================================================================
+
+/** Path segments without empty ones, so trailing slashes don't matter */
+export const splitPath = (path: string) => path.split("/").filter(Boolean);
+
+/**
+ * Match request path segments against a route pattern (`:name` segments
+ * capture); the decoded params, or `undefined` when it doesn't match.
+ */
+export const matchPath = (
+  pattern: string[],
+  segments: string[]
+): Record<string, string> | undefined => {
+  if (pattern.length !== segments.length) return undefined;
+  const params: Record<string, string> = {};
+  for (const [i, part] of pattern.entries()) {
+    const segment = segments[i]!;
+    if (part.startsWith(":")) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(segment);
+      } catch {
+        // Malformed escape (e.g. `%E0`): no route matches, so it's a 404
+        return undefined;
+      }
+    } else if (part !== segment) {
+      return undefined;
+    }
+  }
+  return params;
+};
+
+/**
+ * Parse a request body: JSON (the default without a content type) and
+ * form-encoded bodies become objects, anything else stays a string.
+ */
+export const parseBody = (event: _t.ApigwEvent): unknown => {
+  if (!event.body) return undefined;
+  const raw = event.isBase64Encoded
+    ? Buffer.from(event.body, "base64").toString("utf8")
+    : event.body;
+  const contentType = event.headers?.["content-type"] ?? "";
+
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  if (contentType && !contentType.includes("json")) return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    if (!contentType) return raw;
+    throw new _l.HttpError({
+      statusCode: 400,
+      display: "Invalid JSON body",
+      log: `[router] invalid JSON body: ${raw.slice(0, 100)}`,
+    });
+  }
+};
+
+/** Run a route schema, throwing its ArkErrors (mapped to a 400) */
+export const validate = (schema: Schema | undefined, data: unknown) => {
+  if (!schema) return data;
+  const out = schema(data);
+  if (out instanceof ArkErrors) throw out;
+  return out;
+};
+
+/**
+ * Parse and validate a request's params, query and body. Schema failures
+ * throw their ArkErrors, which the handler factory maps to a 400.
+ */
+export const parseRequest = (
+  event: _t.ApigwEvent,
+  schemas: _t.RouteSchemas,
+  params: Record<string, string | undefined>
+) => ({
+  event,
+  params: validate(schemas.params, params),
+  query: validate(schemas.query, event.queryStringParameters ?? {}),
+  body: validate(schemas.body, parseBody(event)),
+});
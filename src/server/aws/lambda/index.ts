@@ -1,4 +1,4 @@
 export { HttpError } from "./literals";
-export { response } from "./fns";
+export { response, corsHeaders, decodeStreamRecord } from "./fns";
 export * from "./domain";
 export * from "./types";
@@ -6,15 +6,19 @@ export class HttpError extends Error {
   display: string;
   /** internal log message for debugging. */
   log?: string;
+  /** extra response headers, e.g. `Allow` on a 405. */
+  headers?: { [key: string]: string };
 
   constructor(props: {
     statusCode: _t.ResponseOptions["status"];
     display?: string;
     log: string;
+    headers?: { [key: string]: string };
   }) {
     super(props.log);
     this.statusCode = props.statusCode;
     this.display = props.display!;
     this.log = props.log;
+    if (props.headers) this.headers = props.headers;
   }
 }
@@ -1,4 +1,7 @@
 import type {
+  DynamoDBBatchResponse,
+  DynamoDBRecord,
+  DynamoDBStreamEvent,
   APIGatewayProxyEvent,
   APIGatewayProxyEventV2,
   APIGatewayProxyResultV2,
@@ -8,7 +11,10 @@ import type {
   Callback,
   Context,
   SQSEvent,
+  SQSRecord,
 } from "aws-lambda";
+import type { Schema } from "../../../shared/types";
+import type { SqsRecord as S3Record } from "../s3/types";
 
 /** SQS batch response - return this from SQS handlers */
 export type SqsBatchResponse = SQSBatchResponse;
@@ -28,10 +34,7 @@ export type Response = {
   statusCode: number;
   headers: {
     "Content-Type": string;
-    "access-control-allow-origin": string;
-    "access-control-allow-headers": string;
-    "access-control-allow-methods": string;
-    "access-control-allow-credentials": string | boolean;
+    [key: string]: string;
   };
   cookies?: string[] | undefined;
   isBase64Encoded?: boolean;
@@ -59,12 +62,260 @@ export type WebsocketHandlerFn = HandlerFn<WebsocketEvent>;
 export type WebsocketHandler = Handler<WebsocketEvent>;
 export type WebsocketHandlerFactory = HandlerFactory<WebsocketEvent>;
 
+// ============================================================================
+// Router
+// ============================================================================
+
+export type RouteMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RouteSchemas = {
+  params?: Schema;
+  query?: Schema;
+  body?: Schema;
+};
+
+type ParamNames<P extends string> =
+  P extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | ParamNames<`/${Rest}`>
+    : P extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+/** `{ id: string }` for `"/users/:id"` */
+export type PathParams<P extends string> = { [K in ParamNames<P>]: string };
+
+/**
+ * Parsed request inputs for `createRestHandler` / router handlers; schema
+ * outputs replace the raw values.
+ */
+export type RestRequest<
+  S extends RouteSchemas,
+  Params = Record<string, string | undefined>,
+> = {
+  event: ApigwEvent;
+  params: S extends { params: Schema<infer O> } ? O : Params;
+  query: S extends { query: Schema<infer O> }
+    ? O
+    : Record<string, string | undefined>;
+  /** JSON (or form-encoded) bodies parsed, others as the raw string */
+  body: S extends { body: Schema<infer O> } ? O : unknown;
+};
+
+export type RestRequestHandlerFn<
+  S extends RouteSchemas,
+  C extends object = Record<never, never>,
+> = (
+  request: RestRequest<S> & { ctx: HandlerContext<C> }
+) => Promise<ApigwResult> | ApigwResult;
+
+/** What a route handler receives; `params` are typed from the path */
+export type RouteRequest<P extends string, S extends RouteSchemas> = RestRequest<
+  S,
+  PathParams<P>
+>;
+
+export type RouteHandlerFn<P extends string, S extends RouteSchemas> = (
+  request: RouteRequest<P, S>
+) => Promise<ApigwResult> | ApigwResult;
+
+type AddRoute = {
+  <P extends string>(path: P, fn: RouteHandlerFn<P, Record<never, never>>): Router;
+  <P extends string, S extends RouteSchemas>(
+    path: P,
+    schemas: S,
+    fn: RouteHandlerFn<P, S>
+  ): Router;
+};
+
+export type Router = {
+  get: AddRoute;
+  post: AddRoute;
+  put: AddRoute;
+  patch: AddRoute;
+  delete: AddRoute;
+  /** The Lambda handler dispatching to the routes */
+  handler: RestHandler;
+};
+
+export type RouterOptions = {
+  /** Prefix stripped from `rawPath` before matching, e.g. a stage `"/prod"`; paths outside it are a 404 */
+  basePath?: string;
+  /** Middleware around every route (and the 404/405 responses) */
+  middleware?: Middleware<Record<never, never>, object>[];
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/** What middleware and handlers receive: the event plus what middleware added */
+export type HandlerContext<C extends object = Record<never, never>> = C & {
+  event: ApigwEvent;
+};
+
+/**
+ * Handler middleware: runs around the rest of the chain.
+ *
+ * - Short-circuit by returning a response without calling `next`
+ * - Enrich the context for everything after it with `next({ user })`
+ * - Change the response `next` resolves to, or time the call
+ *
+ * `next` never rejects: errors further down arrive as their error response.
+ * `C` is the context it needs, `A` what it adds.
+ */
+export type Middleware<
+  C extends object = Record<never, never>,
+  A extends object = Record<never, never>,
+> = (
+  ctx: HandlerContext<C>,
+  next: (add?: A) => Promise<HandlerResult>
+) => Promise<HandlerResult>;
+
+/** `createRestHandler`, with the context its middleware provides */
+export type RestPipeline<C extends object = Record<never, never>> = {
+  (
+    fn: (
+      event: ApigwEvent,
+      ctx: HandlerContext<C>
+    ) => Promise<ApigwResult> | ApigwResult
+  ): RestHandler;
+  <S extends RouteSchemas>(
+    schemas: S,
+    fn: RestRequestHandlerFn<S, C>
+  ): RestHandler;
+  /** A new pipeline running `mw` after the current middleware */
+  use: <A extends object = Record<never, never>>(
+    mw: Middleware<C, A>
+  ) => RestPipeline<C & A>;
+};
+
+export type AccessLogEntry = {
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  requestId: string;
+  correlationId?: string | undefined;
+  sourceIp?: string | undefined;
+  userAgent?: string | undefined;
+};
+
 export type SqsEvent = SQSEvent;
 export type SqsContext = Context;
 export type SQSHandler = AwsSqsHandler;
 // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
 export type SqsCallback = Callback<SQSBatchResponse | void>;
 export type SqsHandlerFactory = (fn: SqsHandlerFn) => SqsHandlerFn;
+export type SqsRecord = SQSRecord;
+
+export type SqsRecordHandlerFn<T> = (
+  body: T,
+  record: SqsRecord
+) => Promise<void> | void;
+
+export type SqsRecordHandlerOptions<T = unknown> = {
+  /** Validates (and types) each decoded body; a mismatch fails the record */
+  schema?: Schema<T>;
+  /** Records processed at the same time (default: 1) */
+  concurrency?: number;
+  /**
+   * Keep `MessageGroupId` order: a group's records run one after another,
+   * and after a failure the rest of the group fails unprocessed.
+   * Default: whether the source queue's ARN ends in `.fifo`.
+   */
+  fifo?: boolean;
+  /** Bodies are SNS notifications (no raw delivery): decode their `Message` */
+  sns?: boolean;
+};
+
+/** Handler for S3 event notifications delivered through SQS */
+export type SqsS3HandlerOptions = Omit<SqsRecordHandlerOptions, "schema"> & {
+  /** Decode bodies with `S3.recordsFromSqs`; messages without records fail */
+  s3: true;
+};
+
+export type SqsRecordHandlerFactory = {
+  (
+    options: SqsS3HandlerOptions,
+    fn: SqsRecordHandlerFn<S3Record[]>
+  ): (event: SqsEvent) => Promise<SqsBatchResponse>;
+  <T = unknown>(
+    options: SqsRecordHandlerOptions<T>,
+    fn: SqsRecordHandlerFn<T>
+  ): (event: SqsEvent) => Promise<SqsBatchResponse>;
+};
+
+export type DdbStreamEvent = DynamoDBStreamEvent;
+export type DdbBatchResponse = DynamoDBBatchResponse;
+
+/** A decoded DynamoDB stream record */
+export type DdbStreamRecord<T extends object = Record<string, unknown>> = {
+  type: "insert" | "modify" | "remove";
+  /** Primary key attributes of the changed item */
+  keys: Record<string, unknown>;
+  /** Item after the change (with a `NEW_IMAGE` / `NEW_AND_OLD_IMAGES` stream) */
+  newItem: T | undefined;
+  /** Item before the change (with an `OLD_IMAGE` / `NEW_AND_OLD_IMAGES` stream) */
+  oldItem: T | undefined;
+  /**
+   * Top-level attributes added, removed or changed between `oldItem` and
+   * `newItem` (every attribute of the image present on insert / remove)
+   */
+  changedKeys: (keyof T & string)[];
+  /** The undecoded stream record */
+  record: DynamoDBRecord;
+};
+
+export type DdbStreamHandlerFn<T extends object = Record<string, unknown>> = (
+  record: DdbStreamRecord<T>
+) => Promise<void> | void;
+
+export type DdbStreamHandlerOptions = {
+  /**
+   * Only handle items whose key attributes start with these prefixes,
+   * e.g. `{ sk: "user#" }` for one entity of a single-table design.
+   * Other records are skipped (not failed).
+   */
+  prefix?: Record<string, string>;
+  /** Only handle these event types (default: all) */
+  types?: DdbStreamRecord["type"][];
+};
+
+/** Every status code registered with IANA */
+// prettier-ignore
+export type HttpStatus =
+  | 100 | 101 | 102 | 103
+  | 200 | 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226
+  | 300 | 301 | 302 | 303 | 304 | 305 | 307 | 308
+  | 400 | 401 | 402 | 403 | 404 | 405 | 406 | 407 | 408 | 409 | 410 | 411
+  | 412 | 413 | 414 | 415 | 416 | 417 | 421 | 422 | 423 | 424 | 425 | 426
+  | 428 | 429 | 431 | 451
+  | 500 | 501 | 502 | 503 | 504 | 505 | 506 | 507 | 508 | 510 | 511;
+
+/**
+ * Which cross-origin requests a response allows.
+ *
+ * A matching request `Origin` is echoed back (with `Vary: Origin`) rather than
+ * answered with `*`, which browsers reject on credentialed requests.
+ */
+export type CorsPolicy = {
+  /**
+   * Allowed origins: `"*"` (default), a list, or a predicate.
+   * @example ["https://app.example.com", "http://localhost:5173"]
+   * @example (origin) => origin.endsWith(".example.com")
+   */
+  origins?: "*" | string[] | ((origin: string) => boolean);
+  /** Preflight only. @example ["GET", "POST"] */
+  methods?: string[];
+  /** Request headers allowed on preflight. @example ["Content-Type", "Authorization"] */
+  allowedHeaders?: string[];
+  /** Response headers scripts may read. @example ["x-correlation-id"] */
+  exposedHeaders?: string[];
+  /** Allow cookies / auth headers (`access-control-allow-credentials: true`) */
+  credentials?: boolean;
+  /** Seconds browsers may cache a preflight result */
+  maxAge?: number;
+};
 
 export type ResponseOptions = {
   /**
@@ -74,29 +325,38 @@ export type ResponseOptions = {
    *
    * `204` - **No Content**: request succeeded and there is no response payload.
    *
-   * `304` - **Not Modified**: request succeeded but there was no change.j
+   * `304` - **Not Modified**: request succeeded but there was no change.
    *
    * `400` - **Bad Request**: malformed syntax.
    *
    * `401` - **Unauthorized**: request lacks valid auth credentials for target resource.
-   * Note: Will *not* return a response.
+   *
+   * `403` - **Forbidden**: authenticated, but not allowed.
    *
    * `404` - **Not Found**: no matching resource uri.
    *
+   * `405` - **Method Not Allowed**: the resource exists, but not for this method.
+   *
+   * `409` - **Conflict**: e.g. a version or uniqueness conflict.
+   *
    * `410` - **Gone**: the client should not request the resource in the future.
    *
    * `415` - **Unsupported Media Type**
    *
    * `422` - **Unprocessable entity**
    *
+   * `429` - **Too Many Requests**
+   *
    * `500` - **Internal Server Error**
+   *
+   * Any other {@link HttpStatus} works too.
    */
-  status?: 200 | 201 | 204 | 304 | 400 | 401 | 404 | 410 | 415 | 422 | 500;
+  status?: HttpStatus;
   additionalHeaders?: { [key: string]: string };
 
   isBase64Encoded?: boolean;
 
-  /** @example "cookies": [ "cookie1", "cookie2" ] */
+  /** `Set-Cookie` values. @example ["session=abc; HttpOnly; Secure; SameSite=Lax"] */
   cookies?: string[] | undefined;
 
   /** @example application/json */
@@ -113,4 +373,12 @@ export type ResponseOptions = {
   /** @example "OPTIONS,POST,GET,PUT,DELETE,PATCH" */
   methods?: string;
   allowCredentials?: boolean;
+
+  /**
+   * CORS policy; replaces `origin`, `allowedHeaders`, `methods` and
+   * `allowCredentials` when set. Pass `requestOrigin` along for it to match.
+   */
+  cors?: CorsPolicy;
+  /** The request's `Origin` header, checked against `cors.origins` */
+  requestOrigin?: string | undefined;
 };
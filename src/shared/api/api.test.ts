@@ -1,5 +1,8 @@
-import { describe, expect, it } from "vitest";
+import { type } from "arktype";
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import * as Api from "./domain";
 import * as _f from "./fns";
+import { RestError, TimeoutError, ValidationError } from "./types";
 
 describe("shared/api prepareUrl", () => {
   it("joins baseUrl + '/path' without double slashes (preserves base path like /v1)", () => {
@@ -48,3 +51,790 @@ describe("shared/api prepareUrl", () => {
   });
 });
 
+
+describe("shared/api retry", () => {
+  it("parses Retry-After as seconds or HTTP date", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(_f.parseRetryAfter("2", now)).toBe(2000);
+    expect(_f.parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+    expect(_f.parseRetryAfter("Tue, 31 Dec 2024 00:00:00 GMT", now)).toBe(0);
+    expect(_f.parseRetryAfter("soon", now)).toBeUndefined();
+    expect(_f.parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it("merges config and call policies and skips non-idempotent methods", () => {
+    expect(_f.resolveRetry("GET", undefined, undefined)).toBeUndefined();
+    expect(_f.resolveRetry("GET", { attempts: 5 }, undefined)?.attempts).toBe(5);
+    expect(_f.resolveRetry("GET", { attempts: 5 }, { attempts: 2 })?.attempts).toBe(2);
+    expect(_f.resolveRetry("GET", { attempts: 5 }, false)).toBeUndefined();
+    expect(_f.resolveRetry("POST", {}, undefined)).toBeUndefined();
+    expect(_f.resolveRetry("POST", {}, { methods: ["POST"] })).toBeDefined();
+  });
+
+  it("computes exponential backoff capped at maxDelay and honors Retry-After on 429", () => {
+    const retry = _f.resolveRetry("GET", { jitter: "none", maxDelay: 1000 }, undefined)!;
+    expect(_f.retryDelay(retry, 1)).toBe(300);
+    expect(_f.retryDelay(retry, 2)).toBe(600);
+    expect(_f.retryDelay(retry, 3)).toBe(1000);
+
+    const throttled = new Response(null, {
+      status: 429,
+      headers: { "Retry-After": "0" },
+    });
+    expect(_f.retryDelay(retry, 3, throttled)).toBe(0);
+  });
+
+  it("retries transient statuses until the request succeeds", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("bad gateway", { status: 502 }))
+      .mockResolvedValueOnce(new Response('{"ok":true}', { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const onRetry = vi.fn();
+
+    try {
+      Api.configure({ baseUrl: "https://api.example.com", retry: { baseDelay: 0 } });
+      const data = await Api.get<{ Res: { ok: boolean } }>("/me", {
+        retry: { onRetry },
+      });
+
+      expect(data).toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, method: "GET", path: "/me" })
+      );
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("throws the last RestError once attempts are exhausted", async () => {
+    const fetchMock = vi.fn(async () => new Response("down", { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      Api.configure({ baseUrl: "", retry: { attempts: 2, baseDelay: 0 } });
+      await expect(Api.get("/me")).rejects.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("shared/api timeout", () => {
+  /** A fetch that never resolves on its own, only rejects when aborted. */
+  const hangingFetch = vi.fn(
+    (_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        const abort = () => reject(new DOMException("aborted", "AbortError"));
+        if (init?.signal?.aborted) return abort();
+        init?.signal?.addEventListener("abort", abort);
+      })
+  );
+
+  it("rejects with TimeoutError and reports it to onError", async () => {
+    vi.stubGlobal("fetch", hangingFetch);
+    const onError = vi.fn();
+
+    try {
+      Api.configure({ baseUrl: "", timeout: 10, onError });
+      const error = await Api.get("/slow").catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toMatchObject({ timeout: 10 });
+      expect(onError).toHaveBeenCalledWith("GET", "/slow", error, expect.any(Number));
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("keeps caller cancellation distinct from a timeout", async () => {
+    vi.stubGlobal("fetch", hangingFetch);
+    const controller = new AbortController();
+
+    try {
+      const pending = Api.get("/slow", {
+        timeout: 1_000,
+        signal: controller.signal,
+      }).catch((e: unknown) => e);
+      controller.abort();
+      const error = await pending;
+
+      expect(error).not.toBeInstanceOf(TimeoutError);
+      expect(error).toMatchObject({ name: "AbortError" });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("passes the caller signal through untouched without a timeout", () => {
+    const controller = new AbortController();
+    const deadline = _f.createDeadline(undefined, controller.signal);
+    expect(deadline.signal).toBe(controller.signal);
+    expect(deadline.error()).toBeUndefined();
+  });
+
+  it("lets the caller's signal cancel a stream body after headers with a timeout set", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init?: RequestInit) => {
+        fetchSignal = init?.signal ?? undefined;
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode("data: 1\n\n"));
+            fetchSignal?.addEventListener("abort", () =>
+              controller.error(new DOMException("aborted", "AbortError"))
+            );
+          },
+        });
+        return new Response(body, { status: 200 });
+      })
+    );
+    const controller = new AbortController();
+
+    try {
+      const stream = await Api.get<ReadableStream<Uint8Array> | null>("/live", {
+        output: "stream",
+        timeout: 1_000,
+        signal: controller.signal,
+      });
+      const reader = stream!.getReader();
+      expect((await reader.read()).done).toBe(false);
+
+      controller.abort();
+      expect(fetchSignal?.aborted).toBe(true);
+      await expect(reader.read()).rejects.toMatchObject({ name: "AbortError" });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("detaches from a long-lived caller signal on clear", () => {
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+    const deadline = _f.createDeadline(1_000, controller.signal);
+    deadline.clear();
+    controller.abort();
+
+    expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+    expect(deadline.signal?.aborted).toBe(false);
+  });
+});
+
+describe("shared/api clients", () => {
+  const okFetch = () =>
+    vi.fn(async (_url: string, _init?: RequestInit) => new Response("{}"));
+
+  it("keeps each client's baseUrl and headers independent of the default", async () => {
+    const fetchMock = okFetch();
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      Api.configure({ baseUrl: "https://main.example.com", headers: { A: "main" } });
+      const billing = Api.createClient({
+        baseUrl: "https://billing.example.com",
+        headers: async () => ({ A: "billing" }),
+      });
+
+      await billing.get("/invoices");
+      await Api.get("/me");
+
+      expect(fetchMock.mock.calls[0]?.[0]).toBe("https://billing.example.com/invoices");
+      expect(fetchMock.mock.calls[0]?.[1]?.headers).toEqual({ A: "billing" });
+      expect(fetchMock.mock.calls[1]?.[0]).toBe("https://main.example.com/me");
+      expect(fetchMock.mock.calls[1]?.[1]?.headers).toEqual({ A: "main" });
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("extends a parent with merged headers and chained hooks, following later configure calls", async () => {
+    const fetchMock = okFetch();
+    vi.stubGlobal("fetch", fetchMock);
+    const parentHook = vi.fn();
+    const childHook = vi.fn();
+
+    try {
+      const admin = Api.extend({ headers: { B: "admin" }, onRequest: childHook });
+      Api.configure({
+        baseUrl: "https://main.example.com",
+        headers: { A: "main", B: "main" },
+        onRequest: parentHook,
+      });
+
+      await admin.post("/users", { name: "Alice" });
+
+      expect(fetchMock.mock.calls[0]?.[0]).toBe("https://main.example.com/users");
+      expect(fetchMock.mock.calls[0]?.[1]?.headers).toEqual({
+        A: "main",
+        B: "admin",
+        "Content-Type": "application/json",
+      });
+      expect(parentHook).toHaveBeenCalledWith("POST", "/users");
+      expect(childHook).toHaveBeenCalledWith("POST", "/users");
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("merges retry policies field by field and lets a child disable them", () => {
+    const parent = { baseUrl: "", retry: { attempts: 5, baseDelay: 10 } };
+    expect(_f.mergeConfig(parent, { retry: { attempts: 2 } }).retry).toEqual({
+      attempts: 2,
+      baseDelay: 10,
+    });
+    expect(_f.mergeConfig(parent, { retry: false }).retry).toBe(false);
+    expect(_f.mergeConfig(parent, {}).retry).toEqual(parent.retry);
+  });
+});
+
+describe("shared/api middleware", () => {
+  it("runs in order and can edit headers and the URL", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response("{}"));
+    vi.stubGlobal("fetch", fetchMock);
+    const order: string[] = [];
+
+    try {
+      Api.configure({
+        baseUrl: "https://api.example.com",
+        middleware: [
+          async (ctx, next) => {
+            order.push("config");
+            ctx.headers["X-Signed"] = "yes";
+            return next(ctx);
+          },
+        ],
+      });
+      await Api.get("/users", {
+        middleware: [
+          async (ctx, next) => {
+            order.push("call");
+            return next({ ...ctx, url: ctx.url.replace("/users", "/v2/users") });
+          },
+        ],
+      });
+
+      expect(order).toEqual(["config", "call"]);
+      expect(fetchMock.mock.calls[0]?.[0]).toBe("https://api.example.com/v2/users");
+      expect(fetchMock.mock.calls[0]?.[1]?.headers).toEqual({ "X-Signed": "yes" });
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("can replay a request and replace the response without fetching", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("expired", { status: 401 }))
+      .mockResolvedValueOnce(new Response('{"ok":true}'));
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const replayed = await Api.get("/me", {
+        middleware: [
+          async (ctx, next) => {
+            const res = await next();
+            if (res.status !== 401) return res;
+            ctx.headers.Authorization = "Bearer fresh";
+            return next(ctx);
+          },
+        ],
+      });
+      expect(replayed).toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      const mocked = await Api.get("/me", {
+        middleware: [async () => new Response('{"mocked":true}')],
+      });
+      expect(mocked).toEqual({ mocked: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("shared/api auth", () => {
+  const authFetch = (valid: () => string) =>
+    vi.fn(async (_url: string, init?: RequestInit) => {
+      const headers = (init?.headers ?? {}) as Record<string, string>;
+      return headers.Authorization === `Bearer ${valid()}`
+        ? new Response('{"ok":true}')
+        : new Response("expired", { status: 401 });
+    });
+
+  it("refreshes once for concurrent auth failures and replays every request", async () => {
+    let token = "old";
+    const fetchMock = authFetch(() => "new");
+    vi.stubGlobal("fetch", fetchMock);
+    const refreshToken = vi.fn(async () => {
+      await new Promise((r) => setTimeout(r, 5));
+      token = "new";
+    });
+
+    try {
+      Api.configure({
+        baseUrl: "https://api.example.com",
+        auth: { getToken: () => token, refreshToken },
+      });
+      const results = await Promise.all([Api.get("/a"), Api.get("/b"), Api.get("/c")]);
+
+      expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+
+      // A later request just uses the refreshed token
+      await Api.get("/d");
+      expect(fetchMock).toHaveBeenCalledTimes(7);
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("calls onAuthFailure once and surfaces the RestError when the refresh fails", async () => {
+    vi.stubGlobal("fetch", authFetch(() => "never"));
+    const onAuthFailure = vi.fn();
+
+    try {
+      Api.configure({
+        baseUrl: "https://api.example.com",
+        auth: {
+          getToken: () => "old",
+          refreshToken: async () => {
+            throw new Error("refresh token expired");
+          },
+          onAuthFailure,
+        },
+      });
+      const results = await Promise.allSettled([Api.get("/a"), Api.get("/b")]);
+
+      expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+      expect((results[0] as PromiseRejectedResult).reason).toMatchObject({ status: 401 });
+      expect(onAuthFailure).toHaveBeenCalledTimes(1);
+      expect(onAuthFailure.mock.calls[0]?.[0]).toMatchObject({
+        message: "refresh token expired",
+      });
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("honors isAuthError and never sends the token to external URLs", async () => {
+    const fetchMock = vi.fn(async () => new Response("forbidden", { status: 403 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const refreshToken = vi.fn();
+
+    try {
+      Api.configure({
+        baseUrl: "https://api.example.com",
+        auth: { getToken: () => "t", refreshToken, isAuthError: (e) => e.status === 419 },
+      });
+      await expect(Api.get("/a")).rejects.toMatchObject({ status: 403 });
+      await expect(Api.get("https://cdn.example.com/x")).rejects.toMatchObject({
+        status: 403,
+      });
+
+      expect(refreshToken).not.toHaveBeenCalled();
+      const calls = fetchMock.mock.calls as unknown as [string, RequestInit][];
+      expect(calls[0]?.[1].headers).toEqual({ Authorization: "Bearer t" });
+      expect(calls[1]?.[1].headers).toEqual({});
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("shared/api schema", () => {
+  const User = type({ id: "string", age: "number" });
+
+  it("returns validated JSON and throws ValidationError with the path summary", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('{"id":"u1","age":3}'))
+      .mockResolvedValueOnce(new Response('{"id":"u1","age":"3"}'));
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const user = await Api.get("/users/u1", { schema: User });
+      expectTypeOf(user).toEqualTypeOf<{ id: string; age: number }>();
+      expect(user).toEqual({ id: "u1", age: 3 });
+
+      const error = await Api.get("/users/u1", { schema: User }).catch((e) => e);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.summary).toContain("age must be a number");
+      expect(error.issues).toEqual([{ path: "age", message: expect.any(String) }]);
+      expect(error.data).toEqual({ id: "u1", age: "3" });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("validates each SSE event as it arrives", async () => {
+    const sse = 'data: {"id":"a","age":1}\n\ndata: {"id":"b"}\n\n';
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(sse)));
+
+    try {
+      const events = await Api.post("/stream", {}, { output: "sse", schema: User });
+      const iterator = events[Symbol.asyncIterator]();
+      expect((await iterator.next()).value).toEqual({ data: { id: "a", age: 1 } });
+      await expect(iterator.next()).rejects.toBeInstanceOf(ValidationError);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("shared/api RestError", () => {
+  it("carries parsed data, headers and the request that failed", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response('{"message":"Order already exists"}', {
+            status: 409,
+            headers: { "Content-Type": "application/json", "X-Request-Id": "r1" },
+          })
+      )
+    );
+
+    try {
+      Api.configure({ baseUrl: "https://api.example.com" });
+      const err = await Api.post("/orders", { id: 1 }, { params: { v: 2 } }).catch(
+        (e) => e
+      );
+
+      expect(_f.isRestError(err)).toBe(true);
+      expect(_f.isRestError(err, 409)).toBe(true);
+      expect(_f.isRestError(err, 404)).toBe(false);
+      expect(_f.isRestError(new Error("nope"))).toBe(false);
+      expect(err).toMatchObject({
+        status: 409,
+        data: { message: "Order already exists" },
+        method: "POST",
+        url: "https://api.example.com/orders?v=2",
+      });
+      expect(err.headers["x-request-id"]).toBe("r1");
+      expect(err.elapsed).toBeGreaterThanOrEqual(0);
+    } finally {
+      Api.configure({ baseUrl: "" });
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("leaves data undefined for non-JSON bodies", () => {
+    const err = new RestError({ status: 502, body: "<html>Bad Gateway</html>" });
+    expect(err.data).toBeUndefined();
+    expect(err.headers).toEqual({});
+    expect(err.message).toBe("REST 502: <html>Bad Gateway</html>");
+  });
+});
+
+describe("shared/api cache", () => {
+  const json = (body: unknown, headers?: Record<string, string>, status = 200) =>
+    new Response(status === 304 ? null : JSON.stringify(body), { status, headers });
+
+  it("dedupes concurrent GETs and serves fresh hits within ttl", async () => {
+    const fetchMock = vi.fn(async () => json({ id: "me" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const [a, b] = await Promise.all([
+        Api.get("/me", { cache: { ttl: 60_000 } }),
+        Api.get("/me", { cache: { ttl: 60_000 } }),
+      ]);
+      const c = await Api.get("/me", { cache: { ttl: 60_000 } });
+
+      expect([a, b, c]).toEqual([{ id: "me" }, { id: "me" }, { id: "me" }]);
+      expect(a).not.toBe(b);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      // Different params are a different key; no `cache` always fetches
+      await Api.get("/me", { cache: { ttl: 60_000 }, params: { v: 2 } });
+      await Api.get("/me");
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    } finally {
+      Api.cache.invalidate();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("cancels only the aborting caller's wait on a deduped GET", async () => {
+    let release!: () => void;
+    const fetchMock = vi.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(new DOMException("aborted", "AbortError"))
+          );
+          release = () => resolve(json({ id: "me" }));
+        })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    try {
+      const a = Api.get("/me", { cache: true, signal: first.signal }).catch((e: unknown) => e);
+      const b = Api.get("/me", { cache: true, signal: second.signal });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      first.abort();
+      expect(await a).toMatchObject({ name: "AbortError" });
+
+      release();
+      expect(await b).toEqual({ id: "me" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      // Once every caller gave up, the shared request is cancelled
+      const c = Api.get("/gone", { cache: true, signal: second.signal }).catch((e: unknown) => e);
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+      second.abort();
+      expect(await c).toMatchObject({ name: "AbortError" });
+      const signal = (fetchMock.mock.calls[1]?.[1] as RequestInit | undefined)?.signal;
+      expect(signal?.aborted).toBe(true);
+    } finally {
+      Api.cache.invalidate();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("serves stale data while revalidating in the background", async () => {
+    let version = 1;
+    const fetchMock = vi.fn(async () => json({ version: version++ }));
+    vi.stubGlobal("fetch", fetchMock);
+    const now = vi.spyOn(Date, "now");
+
+    try {
+      const policy = { ttl: 1000, staleWhileRevalidate: 5000 };
+      now.mockReturnValue(0);
+      expect(await Api.get("/feed", { cache: policy })).toEqual({ version: 1 });
+
+      now.mockReturnValue(2000);
+      expect(await Api.get("/feed", { cache: policy })).toEqual({ version: 1 });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+      await new Promise((r) => setTimeout(r, 0));
+      expect(await Api.get("/feed", { cache: policy })).toEqual({ version: 2 });
+
+      now.mockReturnValue(10_000);
+      expect(await Api.get("/feed", { cache: policy })).toEqual({ version: 3 });
+    } finally {
+      now.mockRestore();
+      Api.cache.invalidate();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("revalidates with If-None-Match and honors Cache-Control", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(json({ n: 1 }, { ETag: '"v1"', "Cache-Control": "no-cache" }))
+      .mockResolvedValueOnce(json(null, {}, 304))
+      .mockResolvedValueOnce(json({ n: 2 }, { "Cache-Control": "no-store" }))
+      .mockResolvedValueOnce(json({ n: 3 }, { "Cache-Control": "max-age=60" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const headersOf = (call: number) =>
+      (fetchMock.mock.calls[call]?.[1] as RequestInit | undefined)?.headers as Record<
+        string,
+        string
+      >;
+
+    try {
+      expect(await Api.get("/doc", { cache: true })).toEqual({ n: 1 });
+      expect(await Api.get("/doc", { cache: true })).toEqual({ n: 1 });
+      expect(headersOf(1)["If-None-Match"]).toBe('"v1"');
+
+      expect(await Api.get("/other", { cache: true })).toEqual({ n: 2 });
+      expect(await Api.get("/other", { cache: true })).toEqual({ n: 3 });
+      expect(await Api.get("/other", { cache: true })).toEqual({ n: 3 });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    } finally {
+      Api.cache.invalidate();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("keeps cached responses apart per auth token", async () => {
+    let token = "alice";
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+      json({ user: (init.headers as Record<string, string>).Authorization })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      Api.configure({
+        baseUrl: "https://api.example.com",
+        auth: { getToken: () => token, refreshToken: async () => {} },
+      });
+      expect(await Api.get("/me", { cache: { ttl: 60_000 } })).toEqual({ user: "Bearer alice" });
+
+      token = "bob";
+      expect(await Api.get("/me", { cache: { ttl: 60_000 } })).toEqual({ user: "Bearer bob" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      // Same token is still a hit, and invalidating by path covers every token
+      token = "alice";
+      expect(await Api.get("/me", { cache: { ttl: 60_000 } })).toEqual({ user: "Bearer alice" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      Api.cache.invalidate("/me");
+      await Api.get("/me", { cache: { ttl: 60_000 } });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    } finally {
+      Api.configure({ baseUrl: "" });
+      Api.cache.invalidate();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("invalidates by path prefix", async () => {
+    const fetchMock = vi.fn(async () => json({ ok: true }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      Api.configure({ baseUrl: "https://api.example.com" });
+      await Api.get("/users/1", { cache: { ttl: 60_000 } });
+      await Api.get("/teams/1", { cache: { ttl: 60_000 } });
+
+      Api.cache.invalidate("/users");
+      await Api.get("/users/1", { cache: { ttl: 60_000 } });
+      await Api.get("/teams/1", { cache: { ttl: 60_000 } });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    } finally {
+      Api.configure({ baseUrl: "" });
+      Api.cache.invalidate();
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("shared/api SSE reconnect", () => {
+  const encoder = new TextEncoder();
+  // A stream that sends `chunks` and then drops (or ends cleanly)
+  const sseResponse = (chunks: string[], drop: boolean) =>
+    new Response(
+      new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const chunk = chunks.shift();
+          if (chunk !== undefined) controller.enqueue(encoder.encode(chunk));
+          else if (drop) controller.error(new TypeError("network error"));
+          else controller.close();
+        },
+      })
+    );
+
+  it("resumes from Last-Event-ID as one continuous iterator", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        sseResponse(['retry: 0\nid: 1\ndata: {"n":1}\n\n', 'id: 2\ndata: {"n":2}\n\n'], true)
+      )
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(sseResponse(['id: 3\ndata: {"n":3}\n\n'], false));
+    vi.stubGlobal("fetch", fetchMock);
+    const onReconnect = vi.fn();
+
+    try {
+      const events = await Api.post<{ Res: { n: number } }>(
+        "/chat",
+        { prompt: "hi" },
+        { output: "sse", reconnect: { onReconnect } }
+      );
+      const received: number[] = [];
+      for await (const { data } of events) received.push(data.n);
+
+      expect(received).toEqual([1, 2, 3]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const headers = (fetchMock.mock.calls[2]?.[1] as RequestInit | undefined)?.headers;
+      expect(headers).toMatchObject({ "Last-Event-ID": "2" });
+      expect(fetchMock.mock.calls[2]?.[1]?.body).toBe('{"prompt":"hi"}');
+      expect(onReconnect.mock.calls.map(([info]) => [info.attempt, info.delay])).toEqual([
+        [1, 0],
+        [2, 0],
+      ]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("gives up after maxReconnects and rethrows the drop", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(sseResponse(['retry: 0\ndata: {"n":1}\n\n'], true))
+      .mockRejectedValue(new TypeError("Failed to fetch"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const events = await Api.get("/events", {
+        output: "sse",
+        reconnect: { maxReconnects: 2 },
+      });
+      const received: unknown[] = [];
+      const error = await (async () => {
+        for await (const { data } of events) received.push(data);
+      })().catch((e) => e);
+
+      expect(error).toBeInstanceOf(TypeError);
+      expect(received).toEqual([{ n: 1 }]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("shared/api SSE data", () => {
+  const collect = async <T>(events: AsyncIterable<{ data: T }>) => {
+    const received: T[] = [];
+    for await (const { data } of events) received.push(data);
+    return received;
+  };
+
+  it("decodes text and custom payloads, including [DONE] sentinels", async () => {
+    const sse = 'data: {"n":1}\n\ndata: [DONE]\n\n';
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(sse)));
+
+    try {
+      const text = await Api.get<{ Res: string }>("/s", { output: "sse", sseData: "text" });
+      expect(await collect(text)).toEqual(['{"n":1}', "[DONE]"]);
+
+      const custom = await Api.get<{ Res: { n: number } | null }>("/s", {
+        output: "sse",
+        sseData: (raw) => (raw === "[DONE]" ? null : JSON.parse(raw)),
+      });
+      expect(await collect(custom)).toEqual([{ n: 1 }, null]);
+
+      const json = await Api.get("/s", { output: "sse" });
+      await expect(collect(json)).rejects.toThrow(/sseData: "text"/);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("reports comment lines as keepalives without yielding events", async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(": ping\n\n:\n\ndata: tail line\n\n"));
+        controller.close();
+      },
+    });
+    const keepalives: string[] = [];
+
+    const events = _f.parseSSE<string>(stream, {
+      data: "text",
+      onKeepalive: (comment) => keepalives.push(comment),
+    });
+    expect(await collect(events)).toEqual(["tail line"]);
+    expect(keepalives).toEqual(["ping", ""]);
+  });
+});
@@ -1,6 +1,7 @@
 import { RestError } from "./types";
 import type {
   BodylessOptions,
+  ClientConfig,
   BodyOptions,
   Config,
   DataForOutput,
@@ -8,10 +9,13 @@ import type {
   Input,
   JsonRes,
   Method,
+  Middleware,
   Options,
   Output,
   ReqFrom,
   ResFrom,
+  Schema,
+  SchemaOutput,
   SSEEvent,
 } from "./types";
 import * as _f from "./fns";
@@ -23,12 +27,15 @@ import * as _f from "./fns";
 let config: Config = { baseUrl: "" };
 
 /**
- * Configure the API client with base URL and default headers.
+ * Configure the default API client with base URL and default headers.
  *
  * Call this once at app startup before making any requests. The headers
  * option can be a static object or an async function that returns headers,
  * useful for dynamic auth tokens that refresh periodically.
  *
+ * This configures the module-level `Api.get/post/...` functions. Apps that
+ * talk to more than one backend should use `createClient` for the others.
+ *
  * @example
  * ```ts
  * // Static headers
@@ -64,13 +71,19 @@ export const configure = (c: Config) => {
  *
  * // Dynamic headers (called per-request)
  * Api.configure({ baseUrl: "...", headers: async () => ({ Authorization: "Bearer ..." }) });
+ *
+ * // Token auth (header added here; refresh + replay handled by auth middleware)
+ * Api.configure({ baseUrl: "...", auth: { getToken, refreshToken } });
  * ```
  */
-const configHeaders = async (): Promise<HeadersObject> => {
-  if (!config.headers) return {};
-  return typeof config.headers === "function"
-    ? await config.headers()
-    : config.headers;
+const configHeaders = async (config: Config): Promise<HeadersObject> => {
+  const headers = await _f.resolveHeaders(config.headers);
+  if (!config.auth) return headers;
+
+  // Hold new requests while a token refresh is in flight
+  await _f.awaitRefresh(config.auth);
+  const token = await config.auth.getToken();
+  return { ...headers, ..._f.authHeaders(config.auth, token) };
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -87,10 +100,19 @@ const configHeaders = async (): Promise<HeadersObject> => {
  * - Default headers (auth) are included for internal calls, and **never** for external
  * - Bodies are serialized consistently (`json` by default for write methods)
  * - Errors are normalized into `RestError` and can be converted via `onError`
+ * - Transient failures are retried with backoff when a `retry` policy applies
+ * - A `timeout` aborts the request (merged with any caller `signal`) and
+ *   surfaces as `TimeoutError`
+ * - Middleware can rewrite, replay, or replace each attempt around `fetch`
+ * - GETs with `cache` are deduped and served from the in-memory cache
+ * - SSE with `reconnect` resumes dropped streams via `Last-Event-ID`
  * - Responses are parsed via `_f.parseResponse` with optional progress tracking
+ *   and `schema` validation
  * - Interceptor hooks (onRequest/onResponse/onError) are called for observability
  *
  * @throws {RestError} When the response is not ok and no `onError` handler is provided.
+ * @throws {TimeoutError} When `timeout` elapses before the request completes.
+ * @throws {ValidationError} When the data doesn't match the `schema` option.
  */
 const request = async <
   Req,
@@ -98,6 +120,7 @@ const request = async <
   O extends Output | undefined = undefined,
   Return = DataForOutput<Res, O>
 >(
+  config: Config,
   method: Method,
   path: string,
   options?: BodyOptions<Req, Res, Return, O> | Options<Res, Return, O>,
@@ -134,7 +157,7 @@ const request = async <
   // - Internal paths: include configured default headers (auth, etc) unless headers:false
   // - External URLs: NEVER include configured default headers to avoid leaking auth tokens.
   const defaults =
-    headersOption !== false && !isExternal ? await configHeaders() : {};
+    headersOption !== false && !isExternal ? await configHeaders(config) : {};
   const headers = await _f.prepareHeaders({
     headersOption,
     body: rawBody,
@@ -144,6 +167,26 @@ const request = async <
 
   const body = _f.prepareBody(rawBody, input);
 
+  // One deadline for the whole request (every retry attempt and backoff),
+  // merged with the caller's signal so either one can cancel it.
+  const deadline = _f.createDeadline(
+    opts?.timeout ?? config.timeout,
+    opts?.signal
+  );
+  const signal = deadline.signal;
+
+  // Normalize a failure and report it; an expired deadline always surfaces as
+  // `TimeoutError` (not the `AbortError` fetch rejects with) so hooks can tell
+  // a timeout apart from a user cancellation.
+  const fail = (error: unknown): Error => {
+    deadline.clear();
+    const err =
+      deadline.error() ??
+      (error instanceof Error ? error : new Error(String(error)));
+    config.onError?.(method, path, err, Date.now() - start);
+    return err;
+  };
+
   // Use XHR for upload progress (fetch doesn't support it)
   // Type system already prevents combining onUploadProgress with streaming outputs
   const onUploadProgress = opts?.onUploadProgress;
@@ -154,68 +197,185 @@ const request = async <
         headers: headers ?? undefined,
         onProgress: opts?.onProgress,
         output: opts?.output,
-        signal: opts?.signal,
         onUploadProgress,
+        schema: opts?.schema,
         method,
+        signal,
         body,
         url,
       });
+      deadline.clear();
       const elapsed = Date.now() - start;
       config.onResponse?.(method, path, elapsed);
       return opts?.onSuccess
         ? opts.onSuccess(data)
         : (data as unknown as Return);
     } catch (error) {
-      const elapsed = Date.now() - start;
-      const err = error instanceof Error ? error : new Error(String(error));
-      config.onError?.(method, path, err, elapsed);
-      if (opts?.onError && error instanceof RestError) {
-        return opts.onError(error);
+      const err = fail(error);
+      if (opts?.onError && err instanceof RestError) {
+        return opts.onError(err);
       }
-      throw error;
+      throw err;
     }
   }
 
-  // Standard fetch path
+  // Standard fetch path (with optional retries for transient failures)
+  const retry = _f.resolveRetry(method, config.retry, opts?.retry);
+  const isStreaming = opts?.output === "sse" || opts?.output === "stream";
+  const cache = (options as Options<Res, Return, O> | undefined)?.cache;
+  const middleware = [
+    // Cache outermost so a hit skips everything else
+    ...(cache && method === "GET" && !isStreaming
+      ? [_f.cacheMiddleware(cache, config.auth?.header)]
+      : []),
+    // Auth next so user middleware re-runs for a replayed request
+    ...(config.auth ? [_f.authMiddleware(config.auth)] : []),
+    ...(config.middleware ?? []),
+    ...(opts?.middleware ?? []),
+  ];
   let response: Response;
+  let errorBody = "";
   try {
-    response = await fetch(url, {
-      method,
-      ...(headers && { headers }),
-      ...(body !== undefined && { body }),
-      ...(opts?.signal && { signal: opts.signal }),
-    });
-  } catch (networkError) {
-    // Network error (offline, DNS failure, etc.)
-    const elapsed = Date.now() - start;
-    const error =
-      networkError instanceof Error
-        ? networkError
-        : new Error(String(networkError));
-    config.onError?.(method, path, error, elapsed);
-    throw error;
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = !!retry && attempt < retry.attempts;
+      try {
+        response = await _f.runMiddleware(
+          middleware,
+          {
+            headers: { ...headers },
+            attempt,
+            method,
+            signal,
+            path,
+            body,
+            url,
+          },
+          (ctx) =>
+            fetch(ctx.url, {
+              method: ctx.method,
+              headers: ctx.headers,
+              ...(ctx.body !== undefined && { body: ctx.body }),
+              ...(ctx.signal && { signal: ctx.signal }),
+            })
+        );
+      } catch (networkError) {
+        // Network error (offline, DNS failure, etc.)
+        const error =
+          networkError instanceof Error
+            ? networkError
+            : new Error(String(networkError));
+        // Never retry an abort (caller cancellation or expired timeout)
+        const isAbort = signal?.aborted || error.name === "AbortError";
+        if (canRetry && retry.networkErrors && !isAbort) {
+          const delay = _f.retryDelay(retry, attempt);
+          retry.onRetry?.({ method, path, attempt, delay, error });
+          await _f.sleep(delay, signal);
+          continue;
+        }
+        throw error;
+      }
+
+      if (canRetry && retry.statuses.includes(response.status)) {
+        const delay = _f.retryDelay(retry, attempt, response);
+        const error = _f.restError({
+          body: await response.text(),
+          response,
+          method,
+          start,
+          url,
+        });
+        retry.onRetry?.({ method, path, attempt, delay, error });
+        await _f.sleep(delay, signal);
+        continue;
+      }
+      break;
+    }
+    if (!response.ok) errorBody = await response.text();
+  } catch (error) {
+    throw fail(error);
   }
 
   if (!response.ok) {
-    const elapsed = Date.now() - start;
-    const error = new RestError({
-      status: response.status,
-      body: await response.text(),
-    });
-    config.onError?.(method, path, error, elapsed);
-    if (opts?.onError) return opts.onError(error);
+    const error = fail(
+      _f.restError({ body: errorBody, response, method, start, url })
+    );
+    if (opts?.onError && error instanceof RestError) {
+      return opts.onError(error);
+    }
     throw error;
   }
 
+  // Streaming outputs hand the body to the caller, so the timeout only covers
+  // the time until response headers arrive; the caller's signal stays linked
+  // until the body is done.
+  if (isStreaming) {
+    deadline.stop();
+    response = _f.onBodySettled(response, deadline.clear);
+  }
+
   // Call onResponse hook (for telemetry/logging)
   const elapsed = Date.now() - start;
   config.onResponse?.(method, path, elapsed);
 
-  const data = await _f.parseResponse<Res, O>(
-    response,
-    opts?.output,
-    opts?.onProgress
-  );
+  const decode = {
+    ...(opts?.schema && { schema: opts.schema }),
+    ...(opts?.sseData !== undefined && { data: opts.sseData }),
+    ...(opts?.onKeepalive && { onKeepalive: opts.onKeepalive }),
+  };
+
+  // Resumable SSE: each reconnect re-enters the full pipeline (headers, auth,
+  // middleware, timeout) as a raw stream, resuming from the last event id.
+  if (opts?.output === "sse" && opts.reconnect) {
+    const reopen = (lastEventId: string | undefined) => {
+      const resume: Middleware = (ctx, next) =>
+        next({
+          ...ctx,
+          headers: {
+            ...ctx.headers,
+            ...(lastEventId && { "Last-Event-ID": lastEventId }),
+          },
+        });
+      return request<Req, Res, "stream", ReadableStream<Uint8Array> | null>(
+        config,
+        method,
+        path,
+        {
+          ...opts,
+          middleware: [...(opts.middleware ?? []), resume],
+          onSuccess: undefined,
+          onError: undefined,
+          reconnect: false,
+          output: "stream",
+        } as BodyOptions<Req, Res, ReadableStream<Uint8Array> | null, "stream">,
+        defaultInput
+      );
+    };
+    const events = _f.resumeSSE<Res>({
+      ...decode,
+      reconnect: opts.reconnect,
+      body: response.body,
+      signal: opts.signal,
+      reopen,
+    }) as DataForOutput<Res, O>;
+    return opts.onSuccess ? opts.onSuccess(events) : (events as Return);
+  }
+
+  let data: DataForOutput<Res, O>;
+  try {
+    data = await _f.parseResponse<Res, O>(
+      response,
+      opts?.output,
+      opts?.onProgress,
+      decode
+    );
+  } catch (error) {
+    // Only a deadline expiring mid-body is a request failure; parse errors
+    // propagate unchanged.
+    if (deadline.error()) throw fail(error);
+    throw error;
+  } finally {
+    if (!isStreaming) deadline.clear();
+  }
   return opts?.onSuccess ? opts.onSuccess(data) : (data as unknown as Return);
 };
 
@@ -231,6 +391,7 @@ const request = async <
  *
  * Notes:
  * - Generics are compile-time only; `output` is what decides runtime decoding.
+ *   Pass a `schema` to validate the data at runtime (and infer `Res` from it).
  * - The return type is derived from `output` (e.g. `output: "blob"` returns `Blob`).
  * - If you try to use a non-JSON decoded response type (like `Blob`) without setting
  *   `output`, TypeScript will raise a helpful error type to prevent mismatches.
@@ -254,6 +415,10 @@ const request = async <
  *   onSuccess: (users: User[]) => users.map(u => u.name),
  * });
  *
+ * // Validate at runtime; `user` is typed from the schema
+ * const User = type({ id: "string", name: "string" });
+ * const user = await Api.get(`/users/${id}`, { schema: User });
+ *
  * // Download as blob
  * const image = await Api.get("/avatar.png", { output: "blob" });
  *
@@ -263,7 +428,31 @@ const request = async <
  * ```
  *
  * @throws {RestError} When the response is not ok and no `onError` handler is provided.
+ * @throws {ValidationError} When a `schema` is given and the data doesn't match it.
  */
+// Schema overloads - `Res` is inferred from `schema` and validated at runtime
+export function get<
+  Res,
+  O extends SchemaOutput = undefined,
+  Return = unknown
+>(
+  path: string,
+  opts: Options<Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess: (data: DataForOutput<Res, O>) => Return;
+  }
+): Promise<Return>;
+export function get<
+  Res,
+  O extends SchemaOutput = undefined,
+  Return = never
+>(
+  path: string,
+  opts: Options<Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess?: undefined;
+  }
+): Promise<DataForOutput<Res, O> | Return>;
 // SSE overload - must come before generic overloads for TypeScript to infer correctly
 export function get<TTypes = unknown>(
   path: string,
@@ -307,7 +496,12 @@ export function get<
   path: string,
   opts?: Options<JsonRes<ResFrom<TTypes>>, Return, O>
 ): Promise<DataForOutput<JsonRes<ResFrom<TTypes>>, O> | Return> {
-  return request<never, JsonRes<ResFrom<TTypes>>, O, Return>("GET", path, opts);
+  return request<never, JsonRes<ResFrom<TTypes>>, O, Return>(
+    config,
+    "GET",
+    path,
+    opts
+  );
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -348,7 +542,35 @@ export function get<
  * ```
  *
  * @throws {RestError} When the response is not ok and no `onError` handler is provided.
+ * @throws {ValidationError} When a `schema` is given and the data doesn't match it.
  */
+// Schema overloads - `Res` is inferred from `schema` and validated at runtime
+export function post<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = unknown
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess: (data: DataForOutput<Res, O>) => Return;
+  }
+): Promise<Return>;
+export function post<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = never
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess?: undefined;
+  }
+): Promise<DataForOutput<Res, O> | Return>;
 // SSE overload - must come before generic overloads for TypeScript to infer correctly
 export function post<TTypes = unknown>(
   path: string,
@@ -405,6 +627,7 @@ export function post<
   opts?: BodylessOptions<ReqFrom<TTypes>, JsonRes<ResFrom<TTypes>>, Return, O>
 ): Promise<DataForOutput<JsonRes<ResFrom<TTypes>>, O> | Return> {
   return request<ReqFrom<TTypes>, JsonRes<ResFrom<TTypes>>, O, Return>(
+    config,
     "POST",
     path,
     { ...opts, body },
@@ -433,7 +656,35 @@ export function post<
  * ```
  *
  * @throws {RestError} When the response is not ok and no `onError` handler is provided.
+ * @throws {ValidationError} When a `schema` is given and the data doesn't match it.
  */
+// Schema overloads - `Res` is inferred from `schema` and validated at runtime
+export function put<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = unknown
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess: (data: DataForOutput<Res, O>) => Return;
+  }
+): Promise<Return>;
+export function put<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = never
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess?: undefined;
+  }
+): Promise<DataForOutput<Res, O> | Return>;
 export function put<
   TTypes = unknown,
   O extends Output | undefined = undefined,
@@ -474,6 +725,7 @@ export function put<
   opts?: BodylessOptions<ReqFrom<TTypes>, JsonRes<ResFrom<TTypes>>, Return, O>
 ): Promise<DataForOutput<JsonRes<ResFrom<TTypes>>, O> | Return> {
   return request<ReqFrom<TTypes>, JsonRes<ResFrom<TTypes>>, O, Return>(
+    config,
     "PUT",
     path,
     { ...opts, body },
@@ -499,7 +751,35 @@ export function put<
  * ```
  *
  * @throws {RestError} When the response is not ok and no `onError` handler is provided.
+ * @throws {ValidationError} When a `schema` is given and the data doesn't match it.
  */
+// Schema overloads - `Res` is inferred from `schema` and validated at runtime
+export function patch<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = unknown
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess: (data: DataForOutput<Res, O>) => Return;
+  }
+): Promise<Return>;
+export function patch<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = never
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess?: undefined;
+  }
+): Promise<DataForOutput<Res, O> | Return>;
 export function patch<
   TTypes = unknown,
   O extends Output | undefined = undefined,
@@ -540,6 +820,7 @@ export function patch<
   opts?: BodylessOptions<ReqFrom<TTypes>, JsonRes<ResFrom<TTypes>>, Return, O>
 ): Promise<DataForOutput<JsonRes<ResFrom<TTypes>>, O> | Return> {
   return request<ReqFrom<TTypes>, JsonRes<ResFrom<TTypes>>, O, Return>(
+    config,
     "PATCH",
     path,
     { ...opts, body },
@@ -573,7 +854,35 @@ export function patch<
  * ```
  *
  * @throws {RestError} When the response is not ok and no `onError` handler is provided.
+ * @throws {ValidationError} When a `schema` is given and the data doesn't match it.
  */
+// Schema overloads - `Res` is inferred from `schema` and validated at runtime
+export function remove<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = unknown
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess: (data: DataForOutput<Res, O>) => Return;
+  }
+): Promise<Return>;
+export function remove<
+  Res,
+  Req = unknown,
+  O extends SchemaOutput = undefined,
+  Return = never
+>(
+  path: string,
+  body: Req,
+  opts: BodylessOptions<Req, Res, Return, O> & {
+    schema: Schema<Res>;
+    onSuccess?: undefined;
+  }
+): Promise<DataForOutput<Res, O> | Return>;
 export function remove<
   TTypes = unknown,
   O extends Output | undefined = undefined,
@@ -616,9 +925,147 @@ export function remove<
   // Only set default input to "json" if body is provided
   const defaultInput = body !== undefined ? "json" : undefined;
   return request<ReqFrom<TTypes>, JsonRes<ResFrom<TTypes>>, O, Return>(
+    config,
     "DELETE",
     path,
     { ...opts, body },
     defaultInput
   );
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The in-memory GET cache used by the `cache` option (shared by all clients).
+ *
+ * Call `invalidate` after a mutation so the next read refetches. A prefix
+ * matches either the request path (`"/users"`) or the full URL; in-flight
+ * requests for matching keys are detached so they don't repopulate the cache.
+ *
+ * @example
+ * ```ts
+ * const me = await Api.get<{ Res: User }>("/me", { cache: { ttl: 30_000 } });
+ *
+ * await Api.patch("/users/42", changes);
+ * Api.cache.invalidate("/users"); // /users, /users/42, /users?page=2, ...
+ *
+ * Api.cache.invalidate(); // everything (e.g. on sign-out)
+ * ```
+ */
+export const cache = {
+  invalidate: (pathPrefix?: string) => _f.invalidateCache(pathPrefix),
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Clients
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * An independent API client with its own config.
+ *
+ * The verbs are typed exactly like the module-level `Api.get/post/...`
+ * functions (which are themselves the default client).
+ */
+export type Client = {
+  get: typeof get;
+  post: typeof post;
+  put: typeof put;
+  patch: typeof patch;
+  remove: typeof remove;
+  /** Replace this client's own config (an extended client keeps inheriting from its parent). */
+  configure: (config: ClientConfig) => void;
+  /** Create a child client that layers `config` on top of this one. */
+  extend: (config: ClientConfig) => Client;
+  /** The effective config, including anything inherited through `extend`. */
+  readonly config: Config;
+};
+
+type AnyOptions = BodyOptions<unknown, unknown, unknown, Output | undefined>;
+
+/**
+ * Build a client whose config is `own`, optionally layered over a parent.
+ *
+ * The parent's config is read on every request rather than copied, so a child
+ * created at module load still picks up a later `configure` on its parent
+ * (e.g. `Api.extend(...)` before `Api.configure(...)` runs at startup).
+ */
+const buildClient = (
+  getParent: (() => Config) | undefined,
+  own: ClientConfig
+): Client => {
+  let current = own;
+  const getConfig = (): Config =>
+    getParent
+      ? _f.mergeConfig(getParent(), current)
+      : { baseUrl: "", ...current };
+
+  return {
+    get: ((path: string, opts?: AnyOptions) =>
+      request(getConfig(), "GET", path, opts)) as Client["get"],
+    post: ((path: string, body?: unknown, opts?: AnyOptions) =>
+      request(getConfig(), "POST", path, { ...opts, body }, "json")) as Client["post"],
+    put: ((path: string, body?: unknown, opts?: AnyOptions) =>
+      request(getConfig(), "PUT", path, { ...opts, body }, "json")) as Client["put"],
+    patch: ((path: string, body?: unknown, opts?: AnyOptions) =>
+      request(getConfig(), "PATCH", path, { ...opts, body }, "json")) as Client["patch"],
+    remove: ((path: string, body?: unknown, opts?: AnyOptions) =>
+      request(
+        getConfig(),
+        "DELETE",
+        path,
+        { ...opts, body },
+        // Only set default input to "json" if body is provided
+        body !== undefined ? "json" : undefined
+      )) as Client["remove"],
+    configure: (c) => {
+      current = c;
+    },
+    extend: (c) => buildClient(getConfig, c),
+    get config() {
+      return getConfig();
+    },
+  };
+};
+
+/**
+ * Create a named API client with its own base URL, headers, and hooks.
+ *
+ * Use this when an app talks to more than one backend: each client keeps its
+ * own defaults, so there's no swapping `baseUrl` back and forth or falling back
+ * to absolute URLs (which drop default headers). The module-level
+ * `Api.get/post/...` functions keep working as the default client.
+ *
+ * @example
+ * ```ts
+ * const billing = Api.createClient({
+ *   baseUrl: "https://billing.example.com",
+ *   headers: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   retry: { attempts: 3 },
+ * });
+ *
+ * const invoices = await billing.get<{ Res: Invoice[] }>("/invoices");
+ *
+ * // Child client: same base URL and auth, plus an extra header
+ * const admin = billing.extend({ headers: { "X-Admin": "1" } });
+ * await admin.remove(`/invoices/${id}`);
+ * ```
+ */
+export const createClient = (config: Config): Client =>
+  buildClient(undefined, config);
+
+/**
+ * Create a child of the default client (`Api.configure`) with extra config.
+ *
+ * Headers are merged (child wins on conflicts), hooks run parent-first, and
+ * `retry` policies are merged field by field. See `createClient`.
+ *
+ * @example
+ * ```ts
+ * const uploads = Api.extend({ timeout: 120_000, headers: { "X-Upload": "1" } });
+ * await uploads.post("/media", formData);
+ * ```
+ */
+export const extend = (overrides: ClientConfig): Client =>
+  buildClient(() => config, overrides);
@@ -1,4 +1,5 @@
-import { RestError } from "./types";
+import type { ArkErrors } from "arktype";
+import { RestError, TimeoutError, ValidationError } from "./types";
 import * as _t from "./types";
 
 /**
@@ -150,6 +151,80 @@ export const prepareUrl = (
   return url;
 };
 
+/**
+ * Resolve a static-or-getter headers value into a plain object.
+ */
+export const resolveHeaders = async (
+  headers: _t.HeadersObject | _t.HeadersGetter | undefined
+): Promise<_t.HeadersObject> => {
+  if (!headers) return {};
+  return typeof headers === "function" ? await headers() : headers;
+};
+
+/** Run two optional hooks in order (parent first), or whichever one exists. */
+const chainHooks = <A extends unknown[]>(
+  first: ((...args: A) => void) | undefined,
+  second: ((...args: A) => void) | undefined
+) =>
+  first && second
+    ? (...args: A) => {
+        first(...args);
+        second(...args);
+      }
+    : first ?? second;
+
+/**
+ * Layer a child client's config on top of its parent's.
+ *
+ * `extend()` exists so a variant client (admin endpoints, long-timeout uploads)
+ * can add to a parent's defaults without restating them. Merging rules:
+ * - Scalars (`baseUrl`, `timeout`, `auth`) → child replaces parent when set
+ * - `headers` → both resolved per request, child keys win
+ * - `retry` → merged field by field; a child `false` disables retries
+ * - `middleware` → concatenated, parent's chain outermost
+ * - Hooks → both run, parent first, so app-wide telemetry is never lost
+ *
+ * @example
+ * ```ts
+ * mergeConfig(
+ *   { baseUrl: "https://api.example.com", headers: { A: "1" } },
+ *   { headers: { B: "2" }, timeout: 5_000 }
+ * );
+ * // { baseUrl: "https://api.example.com", headers: () => ({ A: "1", B: "2" }), timeout: 5000 }
+ * ```
+ */
+export const mergeConfig = (
+  parent: _t.Config,
+  child: _t.ClientConfig
+): _t.Config => {
+  const headers =
+    parent.headers && child.headers
+      ? async () => ({
+          ...(await resolveHeaders(parent.headers)),
+          ...(await resolveHeaders(child.headers)),
+        })
+      : child.headers ?? parent.headers;
+
+  const retry =
+    child.retry === undefined
+      ? parent.retry
+      : child.retry === false || !parent.retry
+      ? child.retry
+      : { ...parent.retry, ...child.retry };
+
+  return {
+    baseUrl: child.baseUrl ?? parent.baseUrl,
+    timeout: child.timeout ?? parent.timeout,
+    auth: child.auth ?? parent.auth,
+    headers,
+    retry,
+    middleware: [...(parent.middleware ?? []), ...(child.middleware ?? [])],
+    onRequest: chainHooks(parent.onRequest, child.onRequest),
+    onResponse: chainHooks(parent.onResponse, child.onResponse),
+    onError: chainHooks(parent.onError, child.onError),
+  };
+};
+
 /**
  * Produce the final request headers for a fetch call.
  *
@@ -280,40 +355,44 @@ export const prepareBody = (
 };
 
 /**
- * Parse a `fetch` response into the configured output type.
- *
- * Why this exists:
- * - Most app endpoints are JSON, but uploads/downloads need `blob`, `arrayBuffer`,
- *   or raw streaming bodies.
- * - Progress reporting for downloads requires manually reading the response
- *   stream. When `onProgress` is provided, we buffer the response to compute
- *   `loaded/total/percent`.
- *
- * Notes:
- * - For `output: "json"`, an empty response body returns `null`.
- * - For `output: "stream"`, we return `response.body` (no buffering/parsing).
- *
- * @example
- * ```ts
- * const data = await parseResponse<{ id: string }>(response, "json");
+ * Whether a schema result is arktype's `ArkErrors`, checked structurally (an
+ * array with a `summary`) so the client doesn't need arktype at runtime.
+ */
+const isArkErrors = (result: unknown): result is ArkErrors =>
+  Array.isArray(result) &&
+  typeof (result as { summary?: unknown }).summary === "string";
+
+/**
+ * Check decoded data against an optional schema.
  *
- * const blob = await parseResponse<Blob>(response, "blob", (p) => {
- *   console.log(p.percent);
- * });
+ * Returns the schema's output (so morphs like `"string.date.parse"` apply), or
+ * the data unchanged when there is no schema.
  *
- * const stream = await parseResponse<ReadableStream<Uint8Array> | null>(
- *   response,
- *   "stream"
- * );
- * ```
+ * @throws {ValidationError} When the data doesn't match the schema.
  */
+export const validate = <T>(schema: _t.Schema | undefined, data: unknown): T => {
+  if (!schema) return data as T;
+  const result = schema(data);
+  if (isArkErrors(result)) {
+    throw new ValidationError({
+      summary: result.summary,
+      issues: Array.from(result, (e) => ({
+        path: e.propString,
+        message: e.message,
+      })),
+      data,
+    });
+  }
+  return result as T;
+};
+
 /**
  * Parse a ReadableStream as Server-Sent Events (SSE).
  *
  * SSE is a W3C standard wire format for server-to-client streaming. This parser
  * handles the protocol details:
  * - Buffers incomplete lines across chunks (network packets don't align with events)
- * - Parses `data:`, `event:`, `id:` fields per the spec
+ * - Parses `data:`, `event:`, `id:`, `retry:` fields per the spec
  * - Yields complete events when an empty line is encountered
  *
  * The generator yields `SSEEvent<T>` objects containing the parsed data and optional
@@ -323,18 +402,21 @@ export const prepareBody = (
  * Those are application semantics, not protocol. The consumer should check for
  * them in the yielded events.
  *
- * ## ⚠️ Important: JSON is required
+ * ## JSON by default
  *
- * This parser **always** JSON-parses the `data:` payload. Your server must send
- * valid JSON in each SSE event. If it sends plain strings, XML, or any non-JSON
- * format, parsing will fail with a descriptive error.
+ * The `data:` payload is JSON-parsed unless `data` says otherwise. This matches
+ * regular HTTP behavior — when you type `Res: SomeInterface`, you're declaring
+ * a JSON contract. For plain-text payloads use `data: "text"`, and for mixed
+ * streams (JSON plus a `[DONE]` sentinel) pass a decoding function.
  *
- * **Why JSON-only?** This matches regular HTTP behavior — when you type
- * `Res: SomeInterface`, you're declaring a JSON contract. SSE follows the same
- * convention: typed data = JSON data.
+ * Other options (see `SSEParseOptions`):
+ * - `schema` validates each event's decoded `data` as it arrives
+ * - `state` tracks the `id:`/`retry:` fields needed to resume (see `resumeSSE`)
+ * - `onKeepalive` receives comment lines (`: ping`) sent as heartbeats
  *
- * @throws {Error} When a `data:` payload is not valid JSON. The error message
- *   includes the raw data that failed to parse for debugging.
+ * @throws {Error} When a `data:` payload is not valid JSON (in `"json"` mode).
+ *   The error message includes the raw data that failed to parse for debugging.
+ * @throws {ValidationError} When `schema` is given and an event's data doesn't match.
  *
  * @example
  * ```ts
@@ -344,14 +426,28 @@ export const prepareBody = (
  *   console.log(data.type); // "delta"
  * }
  *
- * // ❌ Throws - server sends plain string
+ * // ❌ Throws in the default mode - server sends plain string
  * // Server: data: Hello world
  * // Error: "SSE data must be valid JSON. Received: Hello world"
+ *
+ * // ✅ Plain text
+ * for await (const { data } of parseSSE<string>(stream, { data: "text" })) {
+ *   log.append(data);
+ * }
+ *
+ * // ✅ JSON with an OpenAI-style sentinel
+ * const decode = (raw: string) => (raw === "[DONE]" ? null : (JSON.parse(raw) as Chunk));
+ * for await (const { data } of parseSSE(stream, { data: decode })) {
+ *   if (data === null) break;
+ * }
  * ```
  */
 export async function* parseSSE<T = unknown>(
-  stream: ReadableStream<Uint8Array>
+  stream: ReadableStream<Uint8Array>,
+  options: _t.SSEParseOptions<T> = {}
 ): AsyncGenerator<_t.SSEEvent<T>, void, unknown> {
+  const { schema, state, onKeepalive } = options;
+  const mode = options.data ?? "json";
   const reader = stream.getReader();
   const decoder = new TextDecoder();
 
@@ -361,11 +457,15 @@ export async function* parseSSE<T = unknown>(
   let dataLines: string[] = [];
 
   /**
-   * Parse raw SSE data as JSON with a helpful error message.
+   * Decode raw SSE data per `mode` (JSON errors get a helpful message).
    */
-  const parseJsonData = (rawData: string): T => {
+  const parseData = (rawData: string): T => {
+    if (mode === "text") return validate<T>(schema, rawData);
+    if (typeof mode === "function") return validate<T>(schema, mode(rawData));
+
+    let data: unknown;
     try {
-      return JSON.parse(rawData) as T;
+      data = JSON.parse(rawData);
     } catch {
       // Truncate long data for readability in error message
       const preview =
@@ -374,10 +474,12 @@ export async function* parseSSE<T = unknown>(
         `[api] SSE data must be valid JSON. ` +
           `This parser expects your server to send JSON-formatted data in each SSE event. ` +
           `If you're sending plain strings or another format, you'll need to update your server ` +
-          `to send JSON instead (e.g., {"message":"Hello"} instead of just "Hello").\n\n` +
+          `to send JSON instead (e.g., {"message":"Hello"} instead of just "Hello"), ` +
+          `or set \`sseData: "text"\` (or a decoding function) to handle it yourself.\n\n` +
           `Received: ${preview}`
       );
     }
+    return validate<T>(schema, data);
   };
 
   try {
@@ -397,7 +499,7 @@ export async function* parseSSE<T = unknown>(
           if (dataLines.length > 0) {
             const rawData = dataLines.join("\n");
             yield {
-              data: parseJsonData(rawData),
+              data: parseData(rawData),
               ...(eventType && { event: eventType }),
               ...(eventId && { id: eventId }),
             };
@@ -418,9 +520,16 @@ export async function* parseSSE<T = unknown>(
           // id: field
           const value = line.slice(3);
           eventId = value.startsWith(" ") ? value.slice(1) : value;
+          if (state) state.lastEventId = eventId;
+        } else if (line.startsWith("retry:")) {
+          // retry: field (reconnection delay in ms, ignored unless all digits)
+          const value = line.slice(6).trim();
+          if (state && /^\d+$/.test(value)) state.retry = Number(value);
+        } else if (line.startsWith(":")) {
+          // comment (servers send these as keepalives)
+          const value = line.slice(1).replace(/\r$/, "");
+          onKeepalive?.(value.startsWith(" ") ? value.slice(1) : value);
         }
-        // retry: field is intentionally ignored (reconnection is not applicable here)
-        // Lines starting with : are comments, also ignored
       }
     }
 
@@ -428,7 +537,7 @@ export async function* parseSSE<T = unknown>(
     if (dataLines.length > 0) {
       const rawData = dataLines.join("\n");
       yield {
-        data: parseJsonData(rawData),
+        data: parseData(rawData),
         ...(eventType && { event: eventType }),
         ...(eventId && { id: eventId }),
       };
@@ -438,14 +547,46 @@ export async function* parseSSE<T = unknown>(
   }
 }
 
+/**
+ * Parse a `fetch` response into the configured output type.
+ *
+ * Why this exists:
+ * - Most app endpoints are JSON, but uploads/downloads need `blob`, `arrayBuffer`,
+ *   or raw streaming bodies.
+ * - Progress reporting for downloads requires manually reading the response
+ *   stream. When `onProgress` is provided, we buffer the response to compute
+ *   `loaded/total/percent`.
+ *
+ * Notes:
+ * - For `output: "json"`, an empty response body returns `null`.
+ * - For `output: "stream"`, we return `response.body` (no buffering/parsing).
+ * - With a `schema`, JSON bodies and SSE event data are validated (see `validate`).
+ * - `decode` also carries the SSE-only options (`data`, `onKeepalive`).
+ *
+ * @example
+ * ```ts
+ * const data = await parseResponse<{ id: string }>(response, "json");
+ *
+ * const blob = await parseResponse<Blob>(response, "blob", (p) => {
+ *   console.log(p.percent);
+ * });
+ *
+ * const stream = await parseResponse<ReadableStream<Uint8Array> | null>(
+ *   response,
+ *   "stream"
+ * );
+ * ```
+ */
 export const parseResponse = async <
   Res,
   O extends _t.Output | undefined = undefined
 >(
   response: Response,
   output?: O,
-  onProgress?: (progress: _t.Progress) => void
+  onProgress?: (progress: _t.Progress) => void,
+  decode: Omit<_t.SSEParseOptions<Res>, "state"> = {}
 ): Promise<_t.DataForOutput<Res, O>> => {
+  const { schema } = decode;
   const out = output ?? "json";
 
   // Stream output - return body directly
@@ -458,7 +599,7 @@ export const parseResponse = async <
     if (!response.body) {
       throw new Error("[api] SSE output requires a response body");
     }
-    return parseSSE<Res>(response.body) as _t.DataForOutput<Res, O>;
+    return parseSSE<Res>(response.body, decode) as _t.DataForOutput<Res, O>;
   }
 
   // Track download progress if callback provided
@@ -488,7 +629,7 @@ export const parseResponse = async <
 
     // json
     const text = await blob.text();
-    return (text ? JSON.parse(text) : null) as _t.DataForOutput<Res, O>;
+    return validate(schema, text ? JSON.parse(text) : null);
   }
 
   // No progress tracking - use native methods
@@ -501,13 +642,807 @@ export const parseResponse = async <
 
   // json (default)
   const text = await response.text();
-  return (text ? JSON.parse(text) : null) as _t.DataForOutput<Res, O>;
+  return validate(schema, text ? JSON.parse(text) : null);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SSE reconnect
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RECONNECT_DEFAULTS = {
+  maxReconnects: 5,
+  baseDelay: 1000,
+  maxDelay: 30_000,
+  factor: 2,
+};
+
+/**
+ * Whether a stream failure means "the connection dropped" rather than "the
+ * stream is wrong". Fetch reports network failures (including a body that
+ * stops mid-read) as `TypeError`; a reconnect may also time out or hit a
+ * transient status. Parse/validation errors and caller aborts are final.
+ */
+const isDroppedConnection = (error: unknown) =>
+  error instanceof TypeError ||
+  error instanceof TimeoutError ||
+  (error instanceof RestError &&
+    RETRY_DEFAULTS.statuses.includes(error.status));
+
+/**
+ * Iterate SSE events across reconnects, as one continuous stream.
+ *
+ * Starts with an already-open `body`; when it drops, waits (server `retry:`
+ * or `baseDelay`, growing by `factor`) and calls `reopen` with the last event
+ * id to get a new body. Gives up after `maxReconnects` consecutive reconnects
+ * without an event (or keepalive), rethrowing the last error.
+ *
+ * @example
+ * ```ts
+ * const events = resumeSSE<ChatChunk>({
+ *   body: response.body,
+ *   reopen: (lastEventId) => openStream({ "Last-Event-ID": lastEventId }),
+ *   reconnect: { maxReconnects: 10 },
+ * });
+ * for await (const { data } of events) render(data);
+ * ```
+ */
+export async function* resumeSSE<T = unknown>(
+  props: Omit<_t.SSEParseOptions<T>, "state"> & {
+    body: ReadableStream<Uint8Array> | null;
+    reopen: (
+      lastEventId: string | undefined
+    ) => Promise<ReadableStream<Uint8Array> | null>;
+    reconnect: true | _t.ReconnectOptions;
+    signal?: AbortSignal;
+  }
+): AsyncGenerator<_t.SSEEvent<T>, void, unknown> {
+  const options = {
+    ...RECONNECT_DEFAULTS,
+    ...(props.reconnect === true ? {} : props.reconnect),
+  };
+  const state: _t.SSEState = {};
+  let body: ReadableStream<Uint8Array> | null | undefined = props.body;
+
+  for (let reconnects = 0; ; ) {
+    try {
+      body ??= await props.reopen(state.lastEventId || undefined);
+      if (!body) throw new Error("[api] SSE output requires a response body");
+      const events = parseSSE<T>(body, {
+        ...(props.data !== undefined && { data: props.data }),
+        ...(props.schema && { schema: props.schema }),
+        // A keepalive proves the connection is alive, like an event
+        onKeepalive: (comment) => {
+          reconnects = 0;
+          props.onKeepalive?.(comment);
+        },
+        state,
+      });
+      for await (const event of events) {
+        reconnects = 0;
+        yield event;
+      }
+      return;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      const canReconnect =
+        isDroppedConnection(error) &&
+        !props.signal?.aborted &&
+        reconnects < options.maxReconnects;
+      if (!canReconnect) throw error;
+
+      reconnects++;
+      body = undefined;
+      const delay = Math.min(
+        options.maxDelay,
+        (state.retry ?? options.baseDelay) *
+          options.factor ** (reconnects - 1)
+      );
+      options.onReconnect?.({
+        attempt: reconnects,
+        delay,
+        lastEventId: state.lastEventId,
+        error,
+      });
+      await sleep(delay, props.signal);
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Middleware
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run a middleware chain, ending in `terminal` (the actual `fetch`).
+ *
+ * Each `next` call dispatches to the following middleware with either the
+ * context it was given or the one the middleware passes in. `next` may be
+ * called repeatedly (e.g. replay after refreshing a token) since every call
+ * re-runs the rest of the chain from that point.
+ *
+ * @example
+ * ```ts
+ * const response = await runMiddleware([logger, signer], ctx, (c) =>
+ *   fetch(c.url, { method: c.method, headers: c.headers, body: c.body })
+ * );
+ * ```
+ */
+export const runMiddleware = (
+  middleware: ReadonlyArray<_t.Middleware>,
+  ctx: _t.RequestContext,
+  terminal: (ctx: _t.RequestContext) => Promise<Response>
+): Promise<Response> => {
+  const dispatch = (
+    index: number,
+    current: _t.RequestContext
+  ): Promise<Response> => {
+    const mw = middleware[index];
+    if (!mw) return terminal(current);
+    return mw(current, (next = current) => dispatch(index + 1, next));
+  };
+  return dispatch(0, ctx);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a `RestError` for a failed response, with the request it came from.
+ *
+ * `body` is passed separately because the caller decides how it is read
+ * (consumed, cloned, or already buffered by XHR).
+ */
+export const restError = (props: {
+  response: Pick<Response, "status" | "headers">;
+  body: string;
+  method: _t.Method;
+  url: string;
+  start?: number;
+}) =>
+  new RestError({
+    status: props.response.status,
+    body: props.body,
+    headers: Object.fromEntries(props.response.headers),
+    method: props.method,
+    url: props.url,
+    ...(props.start !== undefined && { elapsed: Date.now() - props.start }),
+  });
+
+/**
+ * Type guard for `RestError`, optionally matching a status.
+ *
+ * @example
+ * ```ts
+ * if (isRestError(err, 404)) return null;
+ * if (isRestError<{ message: string }>(err)) showToast(err.data?.message ?? err.body);
+ * ```
+ */
+export const isRestError = <Data = unknown>(
+  err: unknown,
+  status?: number
+): err is RestError<Data> =>
+  err instanceof RestError && (status === undefined || err.status === status);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Auth
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * In-flight refreshes, keyed by auth config so every client sharing one `auth`
+ * object also shares its single-flight refresh.
+ */
+const refreshes = new WeakMap<_t.AuthOptions, Promise<boolean>>();
+
+/** Build the auth header for a token (nullish token → no header). */
+export const authHeaders = (
+  auth: _t.AuthOptions,
+  token: _t.Token
+): _t.HeadersObject =>
+  token
+    ? {
+        [auth.header ?? "Authorization"]: auth.format
+          ? auth.format(token)
+          : `Bearer ${token}`,
+      }
+    : {};
+
+/**
+ * Wait for an in-flight refresh, if any, so new requests don't go out with a
+ * token that is about to be replaced.
+ */
+export const awaitRefresh = async (auth: _t.AuthOptions) => {
+  await refreshes.get(auth);
+};
+
+/**
+ * Run `refreshToken` once for every caller that needs it right now.
+ *
+ * Resolves `true` when the refresh succeeded; on failure `onAuthFailure` is
+ * called once (not once per waiting request) and it resolves `false`.
+ */
+const refreshOnce = (auth: _t.AuthOptions): Promise<boolean> => {
+  const pending = refreshes.get(auth);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    try {
+      await auth.refreshToken();
+      return true;
+    } catch (error) {
+      auth.onAuthFailure?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return false;
+    } finally {
+      refreshes.delete(auth);
+    }
+  })();
+  refreshes.set(auth, refresh);
+  return refresh;
+};
+
+/** Build a `RestError` from a failed response without consuming its body. */
+const peekError = async (response: Response, ctx: _t.RequestContext) =>
+  restError({
+    body: await response.clone().text(),
+    method: ctx.method,
+    url: ctx.url,
+    response,
+  });
+
+/**
+ * Middleware that refreshes the token on an auth failure and replays once.
+ *
+ * The request pipeline installs this just inside the cache, ahead of user
+ * middleware, so user middleware (signing, logging) runs again for the replay.
+ * Only requests that actually carried the auth header are handled, which keeps
+ * external URLs out of it.
+ *
+ * A request that fails with a token which has already been replaced (another
+ * request refreshed while this one was in flight) is replayed with the new
+ * token without refreshing again.
+ */
+export const authMiddleware =
+  (auth: _t.AuthOptions): _t.Middleware =>
+  async (ctx, next) => {
+    const header = auth.header ?? "Authorization";
+    const sent = ctx.headers[header];
+    const response = await next(ctx);
+    if (response.ok || sent === undefined) return response;
+
+    const isAuthError = auth.isAuthError ?? ((e) => e.status === 401);
+    if (!isAuthError(await peekError(response, ctx))) return response;
+
+    await awaitRefresh(auth);
+    let fresh = authHeaders(auth, await auth.getToken())[header];
+    if (fresh === undefined || fresh === sent) {
+      if (!(await refreshOnce(auth))) return response;
+      fresh = authHeaders(auth, await auth.getToken())[header];
+    }
+    if (fresh === undefined) {
+      auth.onAuthFailure?.(await peekError(response, ctx));
+      return response;
+    }
+
+    const replay = await next({
+      ...ctx,
+      headers: { ...ctx.headers, [header]: fresh },
+    });
+    if (!replay.ok) {
+      const error = await peekError(replay, ctx);
+      if (isAuthError(error)) auth.onAuthFailure?.(error);
+    }
+    return replay;
+  };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A buffered response that can be replayed as a fresh `Response` any number of times. */
+type Snapshot = {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer;
+};
+
+type CacheEntry = Snapshot & {
+  path: string;
+  etag: string | undefined;
+  storedAt: number;
+  ttl: number;
+  swr: number;
+};
+
+const cacheEntries = new Map<string, CacheEntry>();
+/**
+ * A GET shared by concurrent callers. It runs on its own `controller`, not
+ * any caller's signal; `waiters` counts callers still waiting on it.
+ */
+type Flight = {
+  key: string;
+  path: string;
+  request: Promise<Snapshot>;
+  controller: AbortController;
+  waiters: number;
+};
+
+const cacheInFlight = new Map<string, Flight>();
+
+/** Statuses that must not carry a body (the `Response` constructor rejects one). */
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+const snapshot = async (response: Response): Promise<Snapshot> => ({
+  status: response.status,
+  statusText: response.statusText,
+  headers: [...response.headers],
+  body: await response.arrayBuffer(),
+});
+
+const replay = (snap: Snapshot) =>
+  new Response(NULL_BODY_STATUSES.includes(snap.status) ? null : snap.body, {
+    status: snap.status,
+    statusText: snap.statusText,
+    headers: snap.headers,
+  });
+
+/**
+ * Parse the `Cache-Control` directives the cache honors.
+ *
+ * @example
+ * ```ts
+ * parseCacheControl("max-age=60, stale-while-revalidate=30");
+ * // → { noStore: false, noCache: false, maxAge: 60000, swr: 30000 }
+ * ```
+ */
+export const parseCacheControl = (value: string | null) => {
+  const directives = new Map<string, string | undefined>();
+  for (const part of (value ?? "").split(",")) {
+    const [name, arg] = part.trim().toLowerCase().split("=");
+    if (name) directives.set(name, arg);
+  }
+  const seconds = (name: string) => {
+    const n = Number(directives.get(name));
+    return directives.has(name) && Number.isFinite(n) ? n * 1000 : undefined;
+  };
+  return {
+    noStore: directives.has("no-store"),
+    noCache: directives.has("no-cache"),
+    maxAge: seconds("max-age"),
+    swr: seconds("stale-while-revalidate"),
+  };
+};
+
+/**
+ * Store an ok response if its policy allows reuse. `etag` is the one already
+ * stored, kept when a `304` doesn't repeat it.
+ */
+const store = (
+  key: string,
+  path: string,
+  snap: Snapshot,
+  headers: Headers,
+  options: true | _t.CacheOptions,
+  previousEtag?: string
+) => {
+  const directives = parseCacheControl(headers.get("Cache-Control"));
+  if (directives.noStore) return;
+
+  const policy = options === true ? {} : options;
+  const ttl = directives.noCache ? 0 : policy.ttl ?? directives.maxAge ?? 0;
+  const swr = directives.noCache
+    ? 0
+    : policy.staleWhileRevalidate ?? directives.swr ?? 0;
+  const etag = headers.get("ETag") ?? previousEtag;
+  if (!ttl && !swr && !etag) return;
+
+  cacheEntries.set(key, { ...snap, path, etag, ttl, swr, storedAt: Date.now() });
+};
+
+/**
+ * Wait for a shared request. An aborted `signal` rejects this caller's wait
+ * only; the request itself is cancelled once every waiter has given up (a
+ * caller without a signal never gives up).
+ */
+const join = (
+  flight: Flight,
+  signal: AbortSignal | undefined
+): Promise<Snapshot> => {
+  flight.waiters++;
+  if (!signal) return flight.request;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal.reason);
+      if (--flight.waiters > 0) return;
+      // Nobody is waiting: cancel it, and let later callers start afresh
+      if (cacheInFlight.get(flight.key) === flight) {
+        cacheInFlight.delete(flight.key);
+      }
+      flight.controller.abort(signal.reason);
+    };
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    void flight.request
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+/**
+ * Fetch through the rest of the chain, sharing the request with any concurrent
+ * caller for the same key. A stored ETag is sent as `If-None-Match`, and a
+ * `304` refreshes the stored entry instead of replacing it.
+ */
+const load = (
+  key: string,
+  ctx: _t.RequestContext,
+  next: (ctx?: _t.RequestContext) => Promise<Response>,
+  options: true | _t.CacheOptions
+): Promise<Snapshot> => {
+  const pending = cacheInFlight.get(key);
+  if (pending) return join(pending, ctx.signal);
+
+  const entry = cacheEntries.get(key);
+  const headers = entry?.etag
+    ? { ...ctx.headers, "If-None-Match": entry.etag }
+    : ctx.headers;
+  const controller = new AbortController();
+
+  const run = async (): Promise<Snapshot> => {
+    try {
+      const response = await next({
+        ...ctx,
+        headers,
+        signal: controller.signal,
+      });
+      // Invalidated while in flight: hand the result to the waiting callers
+      // but don't store it
+      const current = cacheInFlight.get(key)?.request === request;
+
+      if (response.status === 304 && entry) {
+        if (current) {
+          const { etag } = entry;
+          store(key, ctx.path, entry, response.headers, options, etag);
+        }
+        return entry;
+      }
+
+      const snap = await snapshot(response);
+      if (current && response.ok) {
+        store(key, ctx.path, snap, response.headers, options);
+      }
+      return snap;
+    } finally {
+      if (cacheInFlight.get(key)?.request === request) {
+        cacheInFlight.delete(key);
+      }
+    }
+  };
+  const request = run();
+  // Rejections reach callers through `join`; don't leak one nobody awaits
+  request.catch(() => {});
+  const flight = { key, path: ctx.path, request, controller, waiters: 0 };
+  cacheInFlight.set(key, flight);
+  return join(flight, ctx.signal);
+};
+
+/**
+ * Middleware that serves a GET from the in-memory cache (see `CacheOptions`).
+ *
+ * The request pipeline installs it outermost, so a cache hit skips auth, user
+ * middleware and the network entirely. Entries are keyed on the URL plus the
+ * value of the `identity` header (the auth header), so callers with different
+ * tokens never share a response or an in-flight request.
+ *
+ * A deduped GET is shared, so each caller's signal only cancels its own wait.
+ * Background revalidation runs without the caller's signal, since the caller
+ * already has its (stale) response.
+ */
+export const cacheMiddleware =
+  (
+    options: true | _t.CacheOptions,
+    identity = "Authorization"
+  ): _t.Middleware =>
+  async (ctx, next) => {
+    const credential = ctx.headers[identity];
+    // A space can't appear in a URL, so keys still start with the URL
+    const key = credential === undefined ? ctx.url : `${ctx.url} ${credential}`;
+    const entry = cacheEntries.get(key);
+
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      if (age < entry.ttl) return replay(entry);
+      if (age < entry.ttl + entry.swr) {
+        load(key, { ...ctx, signal: undefined }, next, options).catch(() => {});
+        return replay(entry);
+      }
+    }
+
+    return replay(await load(key, ctx, next, options));
+  };
+
+/**
+ * Drop cached responses (and detach in-flight ones) whose path or URL starts
+ * with `prefix`; no prefix clears everything.
+ */
+export const invalidateCache = (prefix?: string) => {
+  const matches = (key: string, path: string) =>
+    prefix === undefined || key.startsWith(prefix) || path.startsWith(prefix);
+
+  for (const [key, entry] of cacheEntries) {
+    if (matches(key, entry.path)) cacheEntries.delete(key);
+  }
+  for (const [key, { path }] of cacheInFlight) {
+    if (matches(key, path)) cacheInFlight.delete(key);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Retry
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A retry policy with every default filled in. */
+export type ResolvedRetry = Required<Omit<_t.RetryOptions, "onRetry">> &
+  Pick<_t.RetryOptions, "onRetry">;
+
+const RETRY_DEFAULTS: Required<Omit<_t.RetryOptions, "onRetry">> = {
+  attempts: 3,
+  statuses: [408, 429, 500, 502, 503, 504],
+  methods: ["GET", "PUT", "DELETE"],
+  baseDelay: 300,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: "full",
+  networkErrors: true,
+};
+
+/**
+ * Merge the configured and per-call retry policies for one request.
+ *
+ * Returns `undefined` when retries don't apply, so the request pipeline can
+ * skip all retry bookkeeping with a single check:
+ * - neither level sets `retry`, or the call sets `retry: false`
+ * - the method isn't in the policy's `methods` (POST/PATCH are opt-in because
+ *   replaying them can duplicate side effects)
+ * - the policy allows only a single attempt
+ *
+ * @example
+ * ```ts
+ * resolveRetry("GET", { attempts: 5 }, undefined)?.attempts; // 5
+ * resolveRetry("GET", { attempts: 5 }, false);               // undefined
+ * resolveRetry("POST", {}, undefined);                        // undefined (not idempotent)
+ * ```
+ */
+export const resolveRetry = (
+  method: _t.Method,
+  configRetry: _t.RetryOptions | false | undefined,
+  callRetry: _t.RetryOptions | false | undefined
+): ResolvedRetry | undefined => {
+  if (callRetry === false) return undefined;
+  if (!configRetry && !callRetry) return undefined;
+
+  const retry: ResolvedRetry = {
+    ...RETRY_DEFAULTS,
+    ...(configRetry || {}),
+    ...(callRetry || {}),
+  };
+  if (!retry.methods.includes(method) || retry.attempts < 2) return undefined;
+  return retry;
+};
+
+/**
+ * Parse a `Retry-After` header into milliseconds.
+ *
+ * The header is either a number of seconds (`"120"`) or an HTTP date
+ * (`"Wed, 21 Oct 2015 07:28:00 GMT"`). Dates in the past yield `0`; anything
+ * unparseable yields `undefined` so callers fall back to computed backoff.
+ *
+ * @example
+ * ```ts
+ * parseRetryAfter("2");    // 2000
+ * parseRetryAfter(null);   // undefined
+ * parseRetryAfter("soon"); // undefined
+ * ```
+ */
+export const parseRetryAfter = (
+  value: string | null,
+  now = Date.now()
+): number | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+};
+
+/**
+ * Compute how long to wait before the next attempt.
+ *
+ * `Retry-After` is only honored for `429 Too Many Requests` and
+ * `503 Service Unavailable`, the two statuses where the spec defines it as a
+ * back-pressure signal. Every delay is capped at `maxDelay` so a misconfigured
+ * server can't park a client for minutes.
+ *
+ * @example
+ * ```ts
+ * const retry = resolveRetry("GET", { jitter: "none" }, undefined)!;
+ * retryDelay(retry, 1); // 300
+ * retryDelay(retry, 2); // 600
+ * ```
+ */
+export const retryDelay = (
+  retry: ResolvedRetry,
+  attempt: number,
+  response?: Response
+): number => {
+  if (response && (response.status === 429 || response.status === 503)) {
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    if (retryAfter !== undefined) return Math.min(retryAfter, retry.maxDelay);
+  }
+  const backoff = Math.min(
+    retry.baseDelay * Math.pow(retry.factor, attempt - 1),
+    retry.maxDelay
+  );
+  return retry.jitter === "full"
+    ? Math.round(Math.random() * backoff)
+    : backoff;
+};
+
+/**
+ * Wait for `ms`, rejecting early with the signal's reason if it aborts.
+ *
+ * Used between retry attempts so that a caller cancelling a request doesn't
+ * have to wait out the backoff before the promise settles.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timeout
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Merge an optional timeout with an optional caller `AbortSignal`.
+ *
+ * Returns a single signal to hand to `fetch`/XHR that aborts when either the
+ * caller aborts or the timeout elapses. Because fetch rejects with a generic
+ * `AbortError` in both cases, `error()` reports whether the deadline is what
+ * fired so the request pipeline can surface a `TimeoutError` instead.
+ *
+ * `clear()` stops the timer and detaches from the caller's signal (call it
+ * once the request settles). `stop()` only stops the timer: streaming outputs
+ * call it when headers arrive, so the caller's signal can still cancel the
+ * body, and `clear()` once the body is done (see `onBodySettled`).
+ *
+ * Without a timeout (`undefined` or `0`) the caller's signal is passed through
+ * untouched.
+ *
+ * @example
+ * ```ts
+ * const deadline = createDeadline(5_000, userSignal);
+ * try {
+ *   await fetch(url, { signal: deadline.signal });
+ * } catch (err) {
+ *   throw deadline.error() ?? err; // TimeoutError or the original error
+ * } finally {
+ *   deadline.clear();
+ * }
+ * ```
+ */
+export const createDeadline = (
+  timeout: number | undefined,
+  signal: AbortSignal | undefined
+): {
+  signal: AbortSignal | undefined;
+  error: () => TimeoutError | undefined;
+  stop: () => void;
+  clear: () => void;
+} => {
+  if (!timeout) {
+    return { signal, error: () => undefined, stop: () => {}, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  let timedOut: TimeoutError | undefined;
+
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => {
+    timedOut = new TimeoutError({ timeout });
+    controller.abort(timedOut);
+  }, timeout);
+
+  return {
+    signal: controller.signal,
+    error: () => timedOut,
+    stop: () => clearTimeout(timer),
+    // Detach from the caller's signal too: it may outlive this request
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
+
+/**
+ * Call `settled` once a response body has been read to the end, failed (e.g.
+ * aborted) or been cancelled; immediately when there is no body.
+ *
+ * Returns a response with the watched body in place of the original one.
+ */
+export const onBodySettled = (
+  response: Response,
+  settled: () => void
+): Response => {
+  if (!response.body) {
+    settled();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          settled();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        settled();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      settled();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
 // XHR Request (for upload progress support)
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Parse `getAllResponseHeaders()` ("name: value" lines) into `Headers`. */
+const parseXhrHeaders = (raw: string) => {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const index = line.indexOf(":");
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  }
+  return headers;
+};
+
 /**
  * Execute an HTTP request using XMLHttpRequest for upload progress tracking.
  *
@@ -517,7 +1452,12 @@ export const parseResponse = async <
  * Note: This function does NOT support streaming outputs (`sse`, `stream`) because
  * XHR buffers the entire response. The type system prevents this combination.
  *
+ * Pass a signal from `createDeadline` to enforce a timeout; it rejects with the
+ * `TimeoutError` carried as the abort reason.
+ *
  * @throws {RestError} When the response status is not 2xx.
+ * @throws {TimeoutError} When `signal` aborts because its deadline elapsed.
+ * @throws {ValidationError} When `schema` is given and the JSON doesn't match.
  */
 export const requestWithXhr = <
   Res,
@@ -531,18 +1471,21 @@ export const requestWithXhr = <
   body?: BodyInit;
   url: string;
   output?: O;
+  schema?: _t.Schema;
 }): Promise<_t.DataForOutput<Res, O>> => {
   const {
     url,
     body,
     method,
     output,
+    schema,
     signal,
     headers,
     onUploadProgress,
     onProgress,
   } = props;
 
+  const start = Date.now();
   return new Promise((resolve, reject) => {
     const xhr = new XMLHttpRequest();
     xhr.open(method, url);
@@ -595,13 +1538,17 @@ export const requestWithXhr = <
       };
     }
 
-    // Handle abort signal
-    if (signal) {
-      signal.addEventListener("abort", () => {
-        xhr.abort();
-        reject(new Error("Request aborted"));
-      });
-    }
+    // Handle abort signal (a merged timeout signal aborts with TimeoutError)
+    const onAbort = () => {
+      xhr.abort();
+      reject(
+        signal?.reason instanceof TimeoutError
+          ? signal.reason
+          : new Error("Request aborted")
+      );
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
 
     xhr.onload = () => {
       if (xhr.status >= 200 && xhr.status < 300) {
@@ -612,11 +1559,26 @@ export const requestWithXhr = <
           resolve(xhr.responseText as _t.DataForOutput<Res, O>);
         } else {
           // json (default)
-          const text = xhr.responseText;
-          resolve((text ? JSON.parse(text) : null) as _t.DataForOutput<Res, O>);
+          try {
+            const text = xhr.responseText;
+            resolve(validate(schema, text ? JSON.parse(text) : null));
+          } catch (error) {
+            reject(error);
+          }
         }
       } else {
-        reject(new RestError({ status: xhr.status, body: xhr.responseText }));
+        reject(
+          restError({
+            response: {
+              status: xhr.status,
+              headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+            },
+            body: xhr.responseText,
+            method,
+            start,
+            url,
+          })
+        );
       }
     };
 
@@ -50,6 +50,50 @@
  *   { name: "Alice" }
  * );
  *
+ * // Retry transient failures (502/503/...) with exponential backoff
+ * Api.configure({ baseUrl: "...", retry: { attempts: 3 } });
+ * const me = await Api.get<{ Res: User }>("/me"); // retried; honors Retry-After
+ *
+ * // Time out slow requests (composes with your own AbortSignal)
+ * try {
+ *   await Api.get("/report", { timeout: 5_000, signal: controller.signal });
+ * } catch (err) {
+ *   if (err instanceof Api.TimeoutError) showRetryToast();
+ * }
+ *
+ * // Second backend with its own base URL and headers
+ * const billing = Api.createClient({ baseUrl: BILLING_URL, headers: billingAuth });
+ * const invoices = await billing.get<{ Res: Invoice[] }>("/invoices");
+ *
+ * // Middleware: rewrite, replay, or replace requests around fetch
+ * Api.configure({
+ *   baseUrl: "...",
+ *   middleware: [async (ctx, next) => {
+ *     ctx.headers["X-Request-Id"] = crypto.randomUUID();
+ *     return next(ctx);
+ *   }],
+ * });
+ *
+ * // Token auth: 401 → one shared refresh, then every failed request is replayed
+ * Api.configure({
+ *   baseUrl: "...",
+ *   auth: { getToken: () => session.token, refreshToken: renewSession, onAuthFailure: logout },
+ * });
+ *
+ * // Runtime validation (arktype): `Res` is inferred, mismatches throw ValidationError
+ * const user = await Api.get("/me", { schema: type({ id: "string", email: "string" }) });
+ *
+ * // Structured errors: parsed `data`, headers, method, url, elapsed
+ * try {
+ *   await Api.post("/orders", order);
+ * } catch (err) {
+ *   if (Api.isRestError<{ message: string }>(err, 409)) toast(err.data?.message);
+ * }
+ *
+ * // Cache GETs in memory (dedupe, ttl, stale-while-revalidate, ETag)
+ * const me = await Api.get<{ Res: User }>("/me", { cache: { ttl: 30_000 } });
+ * Api.cache.invalidate("/me"); // after a mutation
+ *
  * // Download (non-JSON) — use `output` (return type follows `output`)
  * const image = await Api.get("/avatar.png", { output: "blob" }); // Blob
  *
@@ -59,7 +103,7 @@
  * // External URL (never includes configured default headers like auth)
  * await Api.post(s3PresignedUrl, formData);
  *
- * // SSE streaming (server must send JSON in each data: line)
+ * // SSE streaming (data: lines are JSON by default; see `sseData` for text/custom)
  * // Server sends: data: {"type":"delta","content":"Hello"}
  * type ChatChunk = { type: "delta" | "done"; content?: string };
  * const events = Api.post<{ Res: ChatChunk }>("/chat", body, { output: "sse" });
@@ -68,10 +112,23 @@
  *     content += data.content;
  *   }
  * }
+ *
+ * // Plain-text SSE with keepalive detection
+ * const logs = await Api.get<{ Res: string }>("/logs/tail", {
+ *   output: "sse",
+ *   sseData: "text",
+ *   onKeepalive: () => markAlive(),
+ * });
+ *
+ * // Resume dropped streams (Last-Event-ID, server `retry:`, backoff)
+ * const resumable = Api.post<{ Res: ChatChunk }>("/chat", body, {
+ *   output: "sse",
+ *   reconnect: { maxReconnects: 10 },
+ * });
  * ```
  */
-export { RestError } from "./types";
-export { parseSSE } from "./fns";
+export { RestError, TimeoutError, ValidationError } from "./types";
+export { parseSSE, isRestError } from "./fns";
 export type * from "./types";
 export * from "./domain";
 
@@ -1,18 +1,127 @@
+import type { Schema } from "../types";
+
+export type { Schema } from "../types";
+
 export type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // RestError
 // ─────────────────────────────────────────────────────────────────────────────
 
-export class RestError extends Error {
+/**
+ * Thrown (or passed to `onError`) when a response is not ok.
+ *
+ * Besides the raw `body`, it carries the JSON-decoded `data` (e.g. the
+ * `{ message }` emitted by `Lambda.response`) and the request it came from, so
+ * UI code can show server messages and telemetry can group failures by
+ * endpoint without re-parsing.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await Api.post("/orders", order);
+ * } catch (err) {
+ *   if (Api.isRestError<{ message: string }>(err, 409)) toast(err.data?.message);
+ * }
+ * ```
+ */
+export class RestError<Data = unknown> extends Error {
   status: number;
+  /** Raw response body. */
   body: string;
+  /** `body` decoded as JSON, or `undefined` when it isn't JSON. */
+  data: Data | undefined;
+  /** Response headers (lower-cased names). */
+  headers: HeadersObject;
+  method: Method | undefined;
+  /** Final request URL (after `baseUrl` and `params`). */
+  url: string | undefined;
+  /** Milliseconds from the start of the request until the failure. */
+  elapsed: number | undefined;
 
-  constructor(props: { status: number; body: string }) {
+  constructor(props: {
+    status: number;
+    body: string;
+    data?: Data;
+    headers?: HeadersObject;
+    method?: Method;
+    url?: string;
+    elapsed?: number;
+  }) {
     super(`REST ${props.status}: ${props.body}`);
     this.name = "RestError";
     this.status = props.status;
     this.body = props.body;
+    this.data = "data" in props ? props.data : parseJsonBody<Data>(props.body);
+    this.headers = props.headers ?? {};
+    this.method = props.method;
+    this.url = props.url;
+    this.elapsed = props.elapsed;
+  }
+}
+
+const parseJsonBody = <T>(body: string): T | undefined => {
+  try {
+    return body ? (JSON.parse(body) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TimeoutError
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Thrown when a request's `timeout` elapses before it completes.
+ *
+ * Distinct from the `AbortError` raised by a caller's own `signal`, so
+ * `onError` hooks and catch blocks can tell "the server was too slow" apart
+ * from "the user navigated away".
+ */
+export class TimeoutError extends Error {
+  /** The timeout that elapsed, in milliseconds. */
+  timeout: number;
+
+  constructor(props: { timeout: number }) {
+    super(`Request timed out after ${props.timeout}ms`);
+    this.name = "TimeoutError";
+    this.timeout = props.timeout;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ValidationError
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ValidationIssue = {
+  /** Location of the mismatch, e.g. `"items[0].id"` (empty for the root). */
+  path: string;
+  message: string;
+};
+
+/**
+ * Thrown when a response (or SSE event) doesn't match the call's `schema`.
+ *
+ * `summary` is arktype's human readable report, one line per mismatched path
+ * (e.g. `"email must be a string (was null)"`); `data` is the decoded value
+ * that failed, for logging.
+ */
+export class ValidationError extends Error {
+  summary: string;
+  issues: ValidationIssue[];
+  data: unknown;
+
+  constructor(props: {
+    summary: string;
+    issues: ValidationIssue[];
+    data: unknown;
+  }) {
+    super(`[api] Response validation failed: ${props.summary}`);
+    this.name = "ValidationError";
+    this.summary = props.summary;
+    this.issues = props.issues;
+    this.data = props.data;
   }
 }
 
@@ -62,11 +171,234 @@ export type RequestHooks = {
   ) => void;
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Retry
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Automatic retry policy for transient failures.
+ *
+ * Retries are opt-in: set `retry` in `Api.configure` for app-wide defaults and
+ * override (or disable with `retry: false`) per call. Fields left unset fall back
+ * to the defaults listed below.
+ *
+ * Delays use exponential backoff (`baseDelay * factor^(attempt - 1)`, capped at
+ * `maxDelay`) with optional jitter. For `429` and `503` responses, a server-sent
+ * `Retry-After` header (seconds or HTTP date) wins over the computed backoff.
+ *
+ * @example
+ * ```ts
+ * Api.configure({
+ *   baseUrl: "https://api.example.com",
+ *   retry: { attempts: 4, statuses: [502, 503, 504] },
+ * });
+ *
+ * // Opt a non-idempotent call in explicitly
+ * await Api.post("/jobs", body, { retry: { methods: ["POST"] } });
+ *
+ * // Never retry this one
+ * await Api.get("/health", { retry: false });
+ * ```
+ */
+export type RetryOptions = {
+  /** Maximum number of attempts, including the first one (default: 3). */
+  attempts?: number;
+  /** Response statuses that trigger a retry (default: 408, 429, 500, 502, 503, 504). */
+  statuses?: number[];
+  /** Methods that may be retried (default: idempotent methods GET, PUT, DELETE). */
+  methods?: Method[];
+  /** Delay before the first retry in ms (default: 300). */
+  baseDelay?: number;
+  /** Upper bound for a single delay in ms, including `Retry-After` (default: 10000). */
+  maxDelay?: number;
+  /** Backoff multiplier applied per attempt (default: 2). */
+  factor?: number;
+  /**
+   * `"full"` picks a random delay between 0 and the computed backoff (spreads
+   * reconnect storms); `"none"` waits the exact backoff (default: `"full"`).
+   */
+  jitter?: "full" | "none";
+  /** Also retry when `fetch` itself rejects, e.g. offline or connection reset (default: true). */
+  networkErrors?: boolean;
+  /** Called before each retry is scheduled (telemetry, logging). */
+  onRetry?: (info: {
+    method: Method;
+    path: string;
+    /** The attempt that just failed (1-based). */
+    attempt: number;
+    /** Milliseconds until the next attempt. */
+    delay: number;
+    error: Error;
+  }) => void;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Middleware
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The outgoing request as seen (and editable) by middleware.
+ *
+ * Built fresh for every attempt, so edits made during one attempt never leak
+ * into a retry.
+ */
+export type RequestContext = {
+  method: Method;
+  /** The path passed to `get/post/...` (before `baseUrl` and `params`). */
+  path: string;
+  /** The final URL; rewrite it to redirect the request. */
+  url: string;
+  /** Final request headers (after defaults, `headers` option, Content-Type). */
+  headers: HeadersObject;
+  /** The serialized body. */
+  body: BodyInit | undefined;
+  /** Combined caller signal + timeout. */
+  signal: AbortSignal | undefined;
+  /** 1-based attempt number (> 1 when retrying). */
+  attempt: number;
+};
+
+/**
+ * Interceptor that can modify traffic, unlike the observe-only `RequestHooks`.
+ *
+ * Middleware run in order around `fetch`: each receives the request context and
+ * a `next` function that runs the rest of the chain and resolves with the
+ * `Response`. A middleware can edit `ctx` before calling `next`, call `next`
+ * more than once (replay), skip it entirely (mocks, offline cache), or return a
+ * different `Response`.
+ *
+ * Middleware run once per attempt, inside the retry loop. They don't apply to
+ * upload-progress (XHR) requests.
+ *
+ * @example
+ * ```ts
+ * // Request signing
+ * const sign: Api.Middleware = async (ctx, next) => {
+ *   ctx.headers["X-Signature"] = await hmac(`${ctx.method} ${ctx.url}`);
+ *   return next(ctx);
+ * };
+ *
+ * // Response unwrapping: { data: T } → T
+ * const unwrap: Api.Middleware = async (ctx, next) => {
+ *   const res = await next();
+ *   if (!res.ok) return res;
+ *   const { data } = await res.json();
+ *   return new Response(JSON.stringify(data), res);
+ * };
+ *
+ * Api.configure({ baseUrl: "...", middleware: [sign, unwrap] });
+ * ```
+ */
+export type Middleware = (
+  ctx: RequestContext,
+  next: (ctx?: RequestContext) => Promise<Response>
+) => Promise<Response>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * In-memory cache policy for a GET, keyed on the final URL (after `baseUrl`
+ * and `params`) and the auth header (`Authorization`, or `auth.header`), so a
+ * response fetched with one token is never served to another. Identity carried
+ * in any other header (e.g. `X-API-Key`) is not part of the key.
+ *
+ * - Concurrent calls for the same URL share one in-flight request
+ * - Within `ttl` a stored response is reused without a request
+ * - Within `staleWhileRevalidate` after that, the stale response is returned
+ *   and refreshed in the background
+ * - Past both, a stored `ETag` is revalidated with `If-None-Match` (a `304`
+ *   reuses the stored body)
+ *
+ * Unset durations fall back to the response's `Cache-Control` (`max-age`,
+ * `stale-while-revalidate`); `no-store` is never stored and `no-cache` is
+ * always revalidated. `cache: true` uses those defaults.
+ */
+export type CacheOptions = {
+  /** How long (ms) a stored response is fresh. */
+  ttl?: number;
+  /** How long (ms) after `ttl` a stale response may be served while it refreshes. */
+  staleWhileRevalidate?: number;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Auth
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type Token = string | null | undefined;
+
+/**
+ * Bearer-token auth with automatic refresh on auth failures.
+ *
+ * The token from `getToken` is added to default headers (so, like all default
+ * headers, never to external URLs or `headers: false` calls). When a request
+ * fails with an auth error:
+ * 1. `refreshToken` runs **once**, however many requests failed concurrently
+ * 2. Those requests (and any new ones started meanwhile) wait for it
+ * 3. Each is replayed once with the fresh token from `getToken`
+ *
+ * If the refresh throws, or the replay is still rejected, `onAuthFailure` is
+ * called (e.g. redirect to login) and the original `RestError` surfaces.
+ *
+ * Refresh/replay applies to fetch requests; upload-progress (XHR) requests
+ * only get the current token.
+ *
+ * @example
+ * ```ts
+ * Api.configure({
+ *   baseUrl: "https://api.example.com",
+ *   auth: {
+ *     getToken: () => session.accessToken,
+ *     refreshToken: async () => {
+ *       session.accessToken = await exchange(session.refreshToken);
+ *     },
+ *     onAuthFailure: () => router.push("/login"),
+ *   },
+ * });
+ * ```
+ */
+export type AuthOptions = {
+  /** Current access token, read per request; a nullish token sends no auth header. */
+  getToken: () => Token | Promise<Token>;
+  /** Obtain a new token (store it where `getToken` reads from). */
+  refreshToken: () => unknown | Promise<unknown>;
+  /** Decide whether a failed response means "token rejected" (default: `status === 401`). */
+  isAuthError?: (error: RestError) => boolean;
+  /** Called when the refresh fails or the replayed request is still rejected. */
+  onAuthFailure?: (error: Error) => void;
+  /** Header that carries the token (default: `"Authorization"`). */
+  header?: string;
+  /** Format the header value (default: `` `Bearer ${token}` ``). */
+  format?: (token: string) => string;
+};
+
 export type Config = {
   baseUrl: string;
   headers?: HeadersObject | HeadersGetter;
+  /** Default retry policy for every request (disabled when omitted). */
+  retry?: RetryOptions | false;
+  /** Default timeout in ms for every request, covering all retry attempts (none when omitted). */
+  timeout?: number;
+  /** Middleware chain applied to every request, outermost first. */
+  middleware?: Middleware[];
+  /** Token auth with single-flight refresh and replay on auth failures. */
+  auth?: AuthOptions;
 } & RequestHooks;
 
+/**
+ * Config accepted by `extend` and a client's `configure`.
+ *
+ * Every field is optional because an extended client inherits whatever it
+ * doesn't set from its parent:
+ * - `baseUrl`, `timeout`, `auth`: child replaces parent
+ * - `headers`: merged, child wins on conflicts (getters are resolved per request)
+ * - `middleware`: parent's chain runs first (outermost), then the child's
+ * - `retry`: merged field by field; `false` disables
+ * - hooks (`onRequest`, `onResponse`, `onError`): both run, parent first
+ */
+export type ClientConfig = Partial<Config>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Input / Output
 // ─────────────────────────────────────────────────────────────────────────────
@@ -88,6 +420,9 @@ export type Output =
 /** Output types that require fetch's streaming capabilities (incompatible with XHR). */
 export type StreamingOutput = "sse" | "stream";
 
+/** Outputs whose data a `schema` can validate (decoded JSON). */
+export type SchemaOutput = "json" | "sse" | undefined;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // SSE (Server-Sent Events)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -130,6 +465,66 @@ export type SSEEvent<T = unknown> = {
   id?: string;
 };
 
+/**
+ * How each SSE event's `data:` payload is decoded.
+ *
+ * - `"json"` (default) → `JSON.parse`, throwing a descriptive error otherwise
+ * - `"text"` → the raw string (plain-text log tails, `[DONE]` sentinels)
+ * - `(raw) => T` → custom decoding, e.g. JSON with a sentinel
+ */
+export type SSEData<T = unknown> = "json" | "text" | ((raw: string) => T);
+
+/** Options for `parseSSE` (and the SSE-related request options). */
+export type SSEParseOptions<T = unknown> = {
+  data?: SSEData<T>;
+  /** Validate each decoded `data` (see `Schema`). */
+  schema?: Schema;
+  /** Receives the `id:`/`retry:` fields needed to resume the stream. */
+  state?: SSEState;
+  /**
+   * Called for each comment line (`: ping`), with the text after the colon.
+   * Servers send these as keepalives, so a heartbeat-only stream can still be
+   * detected as alive.
+   */
+  onKeepalive?: (comment: string) => void;
+};
+
+/**
+ * Connection-level SSE fields, updated by `parseSSE` as they arrive: the last
+ * `id:` (sent back as `Last-Event-ID` on reconnect) and the server's `retry:`
+ * reconnection delay in ms.
+ */
+export type SSEState = {
+  lastEventId?: string;
+  retry?: number;
+};
+
+/**
+ * Reconnect policy for `output: "sse"`.
+ *
+ * When the connection drops mid-stream (network error, or a retryable status
+ * on reconnect), the request is re-issued with a `Last-Event-ID` header and
+ * the iterator continues with the new stream. The delay starts at the server's
+ * `retry:` value (else `baseDelay`) and grows by `factor` per consecutive
+ * reconnect. A stream the server ends cleanly is finished, not reconnected.
+ */
+export type ReconnectOptions = {
+  /** Consecutive reconnects without receiving an event before giving up (default: 5). */
+  maxReconnects?: number;
+  /** First delay in ms when the server sent no `retry:` (default: 1000). */
+  baseDelay?: number;
+  /** Cap on the delay in ms (default: 30000). */
+  maxDelay?: number;
+  /** Multiplier per consecutive reconnect (default: 2). */
+  factor?: number;
+  onReconnect?: (info: {
+    attempt: number;
+    delay: number;
+    lastEventId: string | undefined;
+    error: Error;
+  }) => void;
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Generic helpers (typed Req/Res + output-driven response types)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -245,6 +640,35 @@ export type Options<
   params?: Params;
   output?: O;
   signal?: AbortSignal;
+  /** Retry policy for this call; merged over the configured `retry`, `false` disables. */
+  retry?: RetryOptions | false;
+  /**
+   * Abort after this many ms (overrides the configured `timeout`, `0` disables).
+   * Merged with `signal`; throws `TimeoutError`. For `sse`/`stream` outputs it
+   * only covers the time until response headers arrive.
+   */
+  timeout?: number;
+  /** Extra middleware for this call, run inside the configured chain. */
+  middleware?: Middleware[];
+  /**
+   * Validate the decoded JSON (or each SSE event's `data`) at runtime; throws
+   * `ValidationError` on mismatch. `Res` is inferred from the schema.
+   */
+  schema?: Schema;
+  /**
+   * With `output: "sse"`, resume a dropped stream from the last event id
+   * instead of ending (see `ReconnectOptions`).
+   */
+  reconnect?: boolean | ReconnectOptions;
+  /** With `output: "sse"`, how each event's `data:` is decoded (default `"json"`). */
+  sseData?: SSEData<Res>;
+  /** With `output: "sse"`, called for each comment/keepalive line. */
+  onKeepalive?: (comment: string) => void;
+  /**
+   * Cache and dedupe this GET in memory (see `CacheOptions`). Ignored for
+   * `sse`/`stream` outputs. Invalidate with `Api.cache.invalidate(path)`.
+   */
+  cache?: boolean | CacheOptions;
   /** Progress callback for blob/arrayBuffer downloads (not applicable to SSE). */
   onProgress?: (progress: Progress) => void;
   onSuccess?: (data: DataForOutput<Res, O>) => Return;
@@ -273,6 +697,33 @@ export type BodyOptions<
   params?: Params;
   output?: O;
   signal?: AbortSignal;
+  /**
+   * Retry policy for this call; merged over the configured `retry`, `false` disables.
+   * Not applied to upload-progress (XHR) requests.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Abort after this many ms (overrides the configured `timeout`, `0` disables).
+   * Merged with `signal`; throws `TimeoutError`. For `sse`/`stream` outputs it
+   * only covers the time until response headers arrive.
+   */
+  timeout?: number;
+  /** Extra middleware for this call, run inside the configured chain. */
+  middleware?: Middleware[];
+  /**
+   * Validate the decoded JSON (or each SSE event's `data`) at runtime; throws
+   * `ValidationError` on mismatch. `Res` is inferred from the schema.
+   */
+  schema?: Schema;
+  /**
+   * With `output: "sse"`, resume a dropped stream from the last event id
+   * instead of ending (see `ReconnectOptions`).
+   */
+  reconnect?: boolean | ReconnectOptions;
+  /** With `output: "sse"`, how each event's `data:` is decoded (default `"json"`). */
+  sseData?: SSEData<Res>;
+  /** With `output: "sse"`, called for each comment/keepalive line. */
+  onKeepalive?: (comment: string) => void;
   /** Progress callback for response body downloads (not applicable to SSE/stream). */
   onProgress?: (progress: Progress) => void;
   /**
@@ -0,0 +1,13 @@
+import type { ArkErrors } from "arktype";
+
+/**
+ * A runtime schema — any arktype `Type`.
+ *
+ * Typed structurally so callers can pass `type({ ... })` directly; `infer`
+ * is the validated (post-morph) output, e.g. an API call's `Res`, an
+ * entity's item type in `DDB.entity` or a route's inputs in `Lambda`.
+ */
+export type Schema<T = unknown> = {
+  (data: unknown): T | ArkErrors;
+  infer: T;
+};